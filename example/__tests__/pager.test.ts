@@ -0,0 +1,81 @@
+import { it, expect, describe, jest } from '@jest/globals'
+import type { SharedValue } from 'react-native-reanimated'
+
+import {
+  createScrollableAdapter,
+  createSharedValuePagerAdapter,
+  type ScrollableRef,
+} from '../../src/pager'
+
+describe('createScrollableAdapter', () => {
+  it('follows the finger and snaps with scrollToOffset', () => {
+    const scrollToOffset = jest.fn<NonNullable<ScrollableRef['scrollToOffset']>>()
+    const adapter = createScrollableAdapter({ current: { scrollToOffset } })
+
+    adapter.setOffset(120)
+    adapter.snapToPage(2, 800)
+
+    expect(scrollToOffset.mock.calls).toEqual([
+      [{ offset: 120, animated: false }],
+      [{ offset: 800, animated: true }],
+    ])
+  })
+
+  it('scrolls along the list axis with scrollTo', () => {
+    const scrollTo = jest.fn<NonNullable<ScrollableRef['scrollTo']>>()
+
+    createScrollableAdapter({ current: { scrollTo } }).setOffset(50)
+    createScrollableAdapter({ current: { scrollTo } }, 'vertical').snapToPage(1, 600)
+
+    expect(scrollTo.mock.calls).toEqual([
+      [{ x: 50, animated: false }],
+      [{ y: 600, animated: true }],
+    ])
+  })
+
+  it('snaps pager views with setPage and ignores offsets', () => {
+    const setPage = jest.fn<NonNullable<ScrollableRef['setPage']>>()
+    const adapter = createScrollableAdapter({ current: { setPage } })
+
+    adapter.setOffset(120)
+    adapter.snapToPage(3, 1200)
+
+    expect(setPage.mock.calls).toEqual([[3]])
+  })
+
+  it('does nothing before the ref is attached', () => {
+    const adapter = createScrollableAdapter({ current: null })
+
+    expect(() => {
+      adapter.setOffset(10)
+      adapter.snapToPage(1, 400)
+    }).not.toThrow()
+  })
+})
+
+describe('createSharedValuePagerAdapter', () => {
+  const createOffset = (): SharedValue<number> => ({ value: 0 }) as SharedValue<number>
+
+  it('writes offsets to the SharedValue on the UI thread', () => {
+    const offset = createOffset()
+    const adapter = createSharedValuePagerAdapter(offset)
+
+    expect(adapter.isWorklet).toBe(true)
+
+    adapter.setOffset(150)
+    expect(offset.value).toBe(150)
+
+    adapter.snapToPage(1, 400)
+    expect(offset.value).toBe(400)
+  })
+
+  it('snaps with a custom animation', () => {
+    const offset = createOffset()
+    const animation = jest.fn((toValue: number) => toValue + 1)
+
+    createSharedValuePagerAdapter(offset, { animation }).snapToPage(2, 800)
+
+    expect(animation).toHaveBeenCalledWith(800)
+    expect(offset.value).toBe(801)
+  })
+})
@@ -0,0 +1,162 @@
+import { it, expect, describe } from '@jest/globals'
+
+import {
+  getGalleryOffsets,
+  getGallerySnapStep,
+  getNextZoomStep,
+  getPinchDismissProgress,
+  getPreviousZoomStep,
+  getScaleFromDimensions,
+  transformToViewport,
+  viewportToTransform,
+} from '../../src/utils'
+
+const content = { width: 400, height: 300 }
+const containers = [
+  { width: 400, height: 300 },
+  { width: 1024, height: 768 },
+  { width: 375, height: 812 },
+]
+
+describe('viewport conversion', () => {
+  const viewport = { centerX: 0.3, centerY: 0.7, scale: 2.5 }
+
+  it.each([0, 90])('round-trips a viewport at %i° rotation', (rotation) => {
+    for (const container of containers) {
+      const transform = viewportToTransform(viewport, content, container, rotation)
+      const result = transformToViewport(transform, content, container, rotation)
+
+      expect(result.centerX).toBeCloseTo(viewport.centerX)
+      expect(result.centerY).toBeCloseTo(viewport.centerY)
+      expect(result.scale).toBeCloseTo(viewport.scale)
+    }
+  })
+
+  it.each([0, 90])('keeps the viewport across container sizes at %i° rotation', (rotation) => {
+    const [source, ...targets] = containers
+    const sourceViewport = transformToViewport(
+      viewportToTransform(viewport, content, source, rotation),
+      content,
+      source,
+      rotation
+    )
+
+    for (const target of targets) {
+      const transform = viewportToTransform(sourceViewport, content, target, rotation)
+      const result = transformToViewport(transform, content, target, rotation)
+
+      expect(result.centerX).toBeCloseTo(viewport.centerX)
+      expect(result.centerY).toBeCloseTo(viewport.centerY)
+      expect(result.scale).toBeCloseTo(viewport.scale)
+    }
+  })
+
+  it('maps the centered transform to the content center', () => {
+    const result = transformToViewport({ scale: 1, translateX: 0, translateY: 0 }, content, containers[0], 0)
+
+    expect(result).toEqual({ centerX: 0.5, centerY: 0.5, scale: 1 })
+  })
+})
+
+describe('getScaleFromDimensions', () => {
+  const wideContent = { width: 400, height: 200 }
+  const container = { width: 400, height: 800 }
+
+  it('returns 2 for the fixed mode', () => {
+    expect(getScaleFromDimensions(wideContent, container)).toBe(2)
+    expect(getScaleFromDimensions(wideContent, container, 'fixed')).toBe(2)
+  })
+
+  it('fits the width or height of the container', () => {
+    expect(getScaleFromDimensions(wideContent, container, 'fitWidth')).toBe(1)
+    expect(getScaleFromDimensions(wideContent, container, 'fitHeight')).toBe(4)
+  })
+
+  it('fills the container', () => {
+    expect(getScaleFromDimensions(wideContent, container, 'fill')).toBe(4)
+  })
+
+  it('falls back to 2 before layout', () => {
+    expect(getScaleFromDimensions({ width: 0, height: 0 }, container, 'fill')).toBe(2)
+    expect(getScaleFromDimensions(wideContent, { width: 0, height: 0 }, 'fitWidth')).toBe(2)
+  })
+})
+
+describe('zoom steps', () => {
+  const steps = [1, 2, 4]
+
+  it('cycles through the steps and wraps back to minScale', () => {
+    expect(getNextZoomStep(steps, 1, 1)).toBe(2)
+    expect(getNextZoomStep(steps, 2, 1)).toBe(4)
+    expect(getNextZoomStep(steps, 4, 1)).toBe(1)
+    expect(getNextZoomStep(steps, 3, 1, 'cycle')).toBe(4)
+  })
+
+  it('zooms out from any scale above minScale', () => {
+    expect(getNextZoomStep(steps, 1, 1, 'zoomOut')).toBe(2)
+    expect(getNextZoomStep(steps, 2, 1, 'zoomOut')).toBe(1)
+    expect(getNextZoomStep(steps, 3, 1, 'zoomOut')).toBe(1)
+  })
+
+  it('steps back to the previous step', () => {
+    expect(getPreviousZoomStep(steps, 4, 1)).toBe(2)
+    expect(getPreviousZoomStep(steps, 3, 1)).toBe(2)
+    expect(getPreviousZoomStep(steps, 2, 1)).toBe(1)
+    expect(getPreviousZoomStep([2, 4], 2, 1)).toBe(1)
+  })
+})
+
+describe('gallery offsets', () => {
+  it('uses the item size without getItemOffset', () => {
+    expect(getGalleryOffsets(2, 300)).toEqual({ current: 600, prev: 300, next: 900, hasPrev: true, hasNext: true })
+  })
+
+  it('uses variable item offsets', () => {
+    const offsets = [0, 250, 700, 900]
+    const result = getGalleryOffsets(1, 300, offsets.length, index => offsets[index])
+
+    expect(result).toEqual({ current: 250, prev: 0, next: 700, hasPrev: true, hasNext: true })
+  })
+
+  it('has no neighbours past the list bounds', () => {
+    expect(getGalleryOffsets(0, 300, 3)).toEqual({ current: 0, prev: 0, next: 300, hasPrev: false, hasNext: true })
+    expect(getGalleryOffsets(2, 300, 3)).toEqual({ current: 600, prev: 300, next: 600, hasPrev: true, hasNext: false })
+  })
+
+  it('snaps past 30% of the distance to the neighbour', () => {
+    const offsets = getGalleryOffsets(1, 300, 3, index => [0, 200, 800][index])
+
+    expect(getGallerySnapStep(offsets, -170, 0)).toBe(0)
+    expect(getGallerySnapStep(offsets, -190, 0)).toBe(1)
+    expect(getGallerySnapStep(offsets, 50, 0)).toBe(0)
+    expect(getGallerySnapStep(offsets, 70, 0)).toBe(-1)
+  })
+
+  it('snaps on a fling towards the neighbour', () => {
+    const offsets = getGalleryOffsets(1, 300)
+
+    expect(getGallerySnapStep(offsets, -10, -800)).toBe(1)
+    expect(getGallerySnapStep(offsets, 10, 800)).toBe(-1)
+    expect(getGallerySnapStep(offsets, -10, 800)).toBe(0)
+  })
+
+  it('snaps back without a neighbour', () => {
+    const offsets = getGalleryOffsets(0, 300, 1)
+
+    expect(getGallerySnapStep(offsets, -250, -800)).toBe(0)
+    expect(getGallerySnapStep(offsets, 250, 800)).toBe(0)
+  })
+})
+
+describe('getPinchDismissProgress', () => {
+  it('goes from 0 at minScale to 1 at the threshold', () => {
+    expect(getPinchDismissProgress(1.2, 1, 0.8)).toBe(0)
+    expect(getPinchDismissProgress(1, 1, 0.8)).toBe(0)
+    expect(getPinchDismissProgress(0.9, 1, 0.8)).toBeCloseTo(0.5)
+    expect(getPinchDismissProgress(0.6, 1, 0.8)).toBe(1)
+  })
+
+  it('stays at 0 when the threshold is not below minScale', () => {
+    expect(getPinchDismissProgress(0.5, 1, 1)).toBe(0)
+  })
+})
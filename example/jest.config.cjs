@@ -9,8 +9,11 @@ module.exports = {
   // The library is consumed via `link:..`, which the package manager does not
   // materialize into node_modules (the link target is an ancestor dir). Resolve
   // it straight to source, mirroring Metro's resolver.extraNodeModules mapping.
+  // Library sources would import reanimated from the root install, so it is
+  // de-duplicated against this example's (mocked) copy, as Metro does.
   moduleNameMapper: {
     '^react-native-zoom-reanimated$': '<rootDir>/../src/index.tsx',
+    '^react-native-reanimated$': '<rootDir>/node_modules/react-native-reanimated',
   },
   testTimeout: 30000,
 }
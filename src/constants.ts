@@ -19,6 +19,59 @@ export const ANIMATION_DURATION = 350
  */
 export const TAP_MAX_DELTA = 25
 export const PAN_DEBOUNCE_MS = 10
+export const LONG_PRESS_MIN_DURATION = 500
+
+/**
+ * One-finger quick zoom (double-tap and drag)
+ * QUICK_ZOOM_TAP_INTERVAL: max ms between the two touch-downs
+ * QUICK_ZOOM_ACTIVATION_DISTANCE: vertical drag in px before zooming starts
+ * QUICK_ZOOM_SENSITIVITY: exponential zoom rate per px of drag
+ */
+export const QUICK_ZOOM_TAP_INTERVAL = 400
+export const QUICK_ZOOM_ACTIVATION_DISTANCE = 10
+export const QUICK_ZOOM_SENSITIVITY = 0.005
+
+/**
+ * Two-finger tap zooms out by this factor (Apple Maps style)
+ */
+export const TWO_FINGER_TAP_ZOOM_OUT_FACTOR = 2
+
+/**
+ * Mouse wheel / trackpad zoom on web
+ * WHEEL_ZOOM_STEP: scale factor per mouse wheel notch with ctrl/meta held
+ * WHEEL_ZOOM_SENSITIVITY: exponential zoom rate per px of trackpad pinch delta
+ */
+export const WHEEL_ZOOM_STEP = 1.25
+export const WHEEL_ZOOM_SENSITIVITY = 0.01
+
+/**
+ * Keyboard controls
+ * KEYBOARD_ZOOM_STEP: scale factor per zoom in/out key press
+ * KEYBOARD_PAN_STEP: px panned per arrow key press
+ */
+export const KEYBOARD_ZOOM_STEP = 1.5
+export const KEYBOARD_PAN_STEP = 50
+
+/**
+ * Screen reader actions
+ * ACCESSIBILITY_ZOOM_STEP: scale factor per zoom in/out action
+ * ACCESSIBILITY_PAN_FRACTION: fraction of the container size panned per pan action
+ */
+export const ACCESSIBILITY_ZOOM_STEP = 1.5
+export const ACCESSIBILITY_PAN_FRACTION = 0.25
+
+/**
+ * Swipe-down-to-dismiss thresholds at min scale
+ * DISMISS_DISTANCE_THRESHOLD: px dragged down before release dismisses
+ * DISMISS_VELOCITY_THRESHOLD: downward release velocity in px/s that dismisses
+ */
+export const DISMISS_DISTANCE_THRESHOLD = 150
+export const DISMISS_VELOCITY_THRESHOLD = 1000
+
+/**
+ * Pinch-to-close: releasing below this fraction of minScale dismisses
+ */
+export const PINCH_DISMISS_SCALE_THRESHOLD = 0.8
 
 /**
  * Minimum number of pointers for pan gesture
@@ -35,6 +88,20 @@ export const ZOOM_CONFIG = {
   ANIMATION_DURATION,
   TAP_MAX_DELTA,
   PAN_DEBOUNCE_MS,
+  LONG_PRESS_MIN_DURATION,
+  QUICK_ZOOM_TAP_INTERVAL,
+  QUICK_ZOOM_ACTIVATION_DISTANCE,
+  QUICK_ZOOM_SENSITIVITY,
+  TWO_FINGER_TAP_ZOOM_OUT_FACTOR,
+  WHEEL_ZOOM_STEP,
+  WHEEL_ZOOM_SENSITIVITY,
+  KEYBOARD_ZOOM_STEP,
+  KEYBOARD_PAN_STEP,
+  ACCESSIBILITY_ZOOM_STEP,
+  ACCESSIBILITY_PAN_FRACTION,
+  DISMISS_DISTANCE_THRESHOLD,
+  DISMISS_VELOCITY_THRESHOLD,
+  PINCH_DISMISS_SCALE_THRESHOLD,
   MIN_PAN_POINTERS,
   MAX_PAN_POINTERS,
 } as const
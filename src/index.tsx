@@ -1,6 +1,21 @@
-import React, { PropsWithChildren, useCallback, useMemo, RefObject } from 'react'
+import React, {
+  forwardRef,
+  PropsWithChildren,
+  ReactNode,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+  RefObject,
+} from 'react'
 import {
+  AccessibilityActionEvent,
+  AccessibilityInfo,
+  I18nManager,
   LayoutChangeEvent,
+  Platform,
   StyleProp,
   View,
   type ViewStyle,
@@ -14,6 +29,7 @@ import {
   GestureUpdateEvent,
   PanGestureHandlerEventPayload,
   PinchGestureHandlerEventPayload,
+  RotationGestureHandlerEventPayload,
   State,
 } from 'react-native-gesture-handler'
 import Animated, {
@@ -21,6 +37,7 @@ import Animated, {
   AnimationCallback,
   Easing,
   runOnJS,
+  runOnUI,
   SharedValue,
   useAnimatedReaction,
   useAnimatedStyle,
@@ -34,14 +51,100 @@ import {
   MAX_SCALE,
   TAP_MAX_DELTA,
   DOUBLE_TAP_SCALE,
+  LONG_PRESS_MIN_DURATION,
+  QUICK_ZOOM_TAP_INTERVAL,
+  QUICK_ZOOM_ACTIVATION_DISTANCE,
+  QUICK_ZOOM_SENSITIVITY,
+  TWO_FINGER_TAP_ZOOM_OUT_FACTOR,
+  WHEEL_ZOOM_STEP,
+  WHEEL_ZOOM_SENSITIVITY,
+  KEYBOARD_ZOOM_STEP,
+  KEYBOARD_PAN_STEP,
+  ACCESSIBILITY_ZOOM_STEP,
+  ACCESSIBILITY_PAN_FRACTION,
+  DISMISS_DISTANCE_THRESHOLD,
+  DISMISS_VELOCITY_THRESHOLD,
+  PINCH_DISMISS_SCALE_THRESHOLD,
 } from './constants' // Allow over-zoom by 50%
-import { clamp, type Dimensions } from './utils'
-import styles from './styles'
+import {
+  clamp,
+  getDecayRestPosition,
+  getGalleryOffsets,
+  getGallerySnapStep,
+  getNextZoomStep,
+  getPinchDismissProgress,
+  getPreviousZoomStep,
+  getRotatedSize,
+  getScaleFromDimensions,
+  rotatePoint,
+  transformToViewport,
+  viewportToTransform,
+  type Dimensions,
+  type DoubleTapMode,
+  type DoubleTapStepBehavior,
+  type Offset,
+  type Rect,
+  type Viewport,
+} from './utils'
+import {
+  createSyncMemberId,
+  type ZoomSyncGroup,
+  type ZoomSyncMode,
+} from './useZoomSync'
+import styles, { COMPARE_HANDLE_SIZE } from './styles'
+import { getWebElement, type WebKeyboardEvent, type WebWheelEvent } from './web'
+import {
+  createScrollableAdapter,
+  type GallerySwipeDirection,
+  type PagerAdapter,
+  type ScrollableRef,
+} from './pager'
+
+export type { Dimensions, DoubleTapMode, DoubleTapStepBehavior, Offset, Rect, Viewport } from './utils'
+export { useZoomSync } from './useZoomSync'
+export { createScrollableAdapter, createSharedValuePagerAdapter } from './pager'
+export type { GallerySwipeDirection, PagerAdapter, ScrollableRef, SharedValuePagerAdapterOptions } from './pager'
+export type { SyncedTransform, ZoomSyncGroup, ZoomSyncMode } from './useZoomSync'
 
 // Rubber band factor for over-scroll/over-zoom
 const RUBBER_BAND_FACTOR = 0.55
 const MIN_OVER_SCALE = 0.5 // Allow zooming out to 50% for rubber band
 
+// Content shrinks by up to this fraction while dragging to dismiss
+const DISMISS_SCALE_REDUCTION = 0.25
+
+// Vertical drag in px before a swipe at min scale is recognized as dismiss
+const DISMISS_ACTIVATION_DISTANCE = 10
+
+// Without a settle signal, a swiped-away page springs back after this delay
+const PAGE_SETTLE_FALLBACK_MS = 300
+
+// Zoom level is announced once it has been stable this long (wheel ticks, pinch, animations)
+const ACCESSIBILITY_ANNOUNCEMENT_DELAY_MS = 500
+
+// Pan/pinch ending this soon after a two-finger tap must not override its zoom-out
+const TWO_FINGER_TAP_SETTLE_MS = 100
+
+// Default labels of the screen reader actions
+const ACCESSIBILITY_ACTION_LABELS: Record<ZoomAccessibilityAction, string> = {
+  zoomIn: 'Zoom in',
+  zoomOut: 'Zoom out',
+  reset: 'Reset zoom',
+  panLeft: 'Pan left',
+  panRight: 'Pan right',
+  panUp: 'Pan up',
+  panDown: 'Pan down',
+}
+const ACCESSIBILITY_ZOOM_ACTIONS: ZoomAccessibilityAction[] = ['zoomIn', 'zoomOut', 'reset']
+const ACCESSIBILITY_PAN_ACTIONS: ZoomAccessibilityAction[] = ['panLeft', 'panRight', 'panUp', 'panDown']
+
+const getDefaultZoomAnnouncement = (zoomScale: number): string => `Zoom ${Math.round(zoomScale * 100)}%`
+
+// Wheel deltas: DOM_DELTA_LINE mode and the pixel size of one line/notch
+const WHEEL_DELTA_MODE_LINE = 1
+const WHEEL_LINE_HEIGHT = 16
+const WHEEL_NOTCH_DELTA = 50 // Mouse wheel notches report ~100px, trackpads much less
+
 // Apple Photos spring animation config
 // Uses critically damped spring (dampingRatio ≈ 1) with fast response
 // Reference: iOS UISpringTimingParameters defaults
@@ -64,16 +167,265 @@ export interface DoubleTapConfig {
   defaultScale?: number
   minZoomScale?: number
   maxZoomScale?: number
+  /**
+   * Zoom steps, e.g. [1, 2, 4]. With 'cycle', each double tap advances to the next step
+   * around the tap point and wraps back to minScale after the last one.
+   * Steps are clamped to minScale/maxScale.
+   */
+  steps?: number[]
+  /**
+   * Double tap behavior with steps. Default is 'cycle'.
+   */
+  stepBehavior?: DoubleTapStepBehavior
+  /**
+   * How the double tap target scale is chosen. 'fill', 'fitWidth' and 'fitHeight'
+   * zoom so the content exactly fills the container along that axis, falling back
+   * to the fixed scale when the content already fills it. Default is 'fixed'.
+   */
+  mode?: DoubleTapMode
+}
+
+/**
+ * Mouse wheel / trackpad configuration (react-native-web)
+ */
+export interface WheelConfig {
+  /**
+   * Scale factor per mouse wheel notch with ctrl/meta held. Default is 1.25.
+   */
+  zoomStep?: number
+  /**
+   * Exponential zoom rate per pixel of trackpad pinch delta. Default is 0.01.
+   */
+  sensitivity?: number
+}
+
+/**
+ * Keyboard controls configuration.
+ * Keys are matched against KeyboardEvent.key values.
+ */
+export interface KeyboardControlsConfig {
+  /**
+   * Keys that zoom in by one step. Default is ['+', '='].
+   */
+  zoomInKeys?: string[]
+  /**
+   * Keys that zoom out by one step. Default is ['-', '_'].
+   */
+  zoomOutKeys?: string[]
+  /**
+   * Keys that reset zoom and rotation. Default is ['0'].
+   */
+  resetKeys?: string[]
+  /**
+   * Keys that pan when zoomed. Defaults are the arrow keys.
+   */
+  panLeftKeys?: string[]
+  panRightKeys?: string[]
+  panUpKeys?: string[]
+  panDownKeys?: string[]
+  /**
+   * Scale factor per zoom key press. Default is 1.5.
+   */
+  zoomStep?: number
+  /**
+   * Pixels panned per arrow key press. Default is 50.
+   */
+  panStep?: number
+}
+
+/**
+ * Custom screen reader actions exposed on the zoom container
+ */
+export type ZoomAccessibilityAction = 'zoomIn' | 'zoomOut' | 'reset' | 'panLeft' | 'panRight' | 'panUp' | 'panDown'
+
+/**
+ * Screen reader (VoiceOver/TalkBack) configuration
+ */
+export interface ZoomAccessibilityConfig {
+  /**
+   * Expose the container as an adjustable element with zoom actions.
+   * Default is true once accessibilityConfig is passed.
+   */
+  enabled?: boolean
+  /**
+   * Accessibility label of the container.
+   */
+  label?: string
+  /**
+   * Accessibility hint of the container.
+   */
+  hint?: string
+  /**
+   * Localized labels of the custom actions.
+   */
+  actionLabels?: Partial<Record<ZoomAccessibilityAction, string>>
+  /**
+   * Announce the zoom level after it changes. Default is true.
+   */
+  announceZoomChanges?: boolean
+  /**
+   * Build the announcement for a zoom level. Default is "Zoom 150%".
+   */
+  getZoomAnnouncement?: (scale: number) => string
+  /**
+   * Scale factor per zoom in/out action. Default is 1.5.
+   */
+  zoomStep?: number
+  /**
+   * Fraction of the container size panned per pan action. Default is 0.25.
+   */
+  panFraction?: number
+}
+
+/**
+ * Wheel input in container coordinates, as passed to onWheel
+ */
+export interface ZoomWheelEvent {
+  x: number
+  y: number
+  deltaX: number
+  deltaY: number
+  /**
+   * DOM deltaMode: 0 = pixels, 1 = lines
+   */
+  deltaMode?: number
+  ctrlKey?: boolean
+  metaKey?: boolean
+}
+
+/**
+ * Thresholds for swipe-down-to-dismiss
+ */
+export interface DismissConfig {
+  /**
+   * Distance in px the content must be dragged down to dismiss on release. Default is 150.
+   */
+  distanceThreshold?: number
+  /**
+   * Downward release velocity in px/s that dismisses regardless of distance. Default is 1000.
+   */
+  velocityThreshold?: number
+}
+
+/**
+ * Pinch-to-close configuration
+ */
+export interface PinchDismissConfig {
+  /**
+   * Releasing a pinch below this fraction of minScale dismisses. Default is 0.8.
+   * Pinch rubber-banding bottoms out at 0.5.
+   */
+  scaleThreshold?: number
+  /**
+   * Shrink and fade the content out before calling onPinchDismiss. Default is true.
+   * Call reset() to bring the content back if the viewer stays mounted.
+   */
+  animateOut?: boolean
 }
 
 /**
- * Scrollable ref interface for parent FlatList/ScrollView.
- * Compatible with FlatList/ScrollView from react-native, react-native-gesture-handler,
- * and react-native-reanimated (Animated.FlatList/ScrollView).
+ * Logical direction of a gallery page change
  */
-export interface ScrollableRef {
-  scrollToOffset?: (params: { offset: number; animated?: boolean }) => void
-  scrollTo?: (params: { x?: number; y?: number; animated?: boolean }) => void
+export type PageChangeDirection = 'next' | 'prev'
+
+/**
+ * Options for imperative zoom actions
+ */
+export interface ZoomActionOptions {
+  /**
+   * Animate to the new transform. Default is true.
+   */
+  animated?: boolean
+}
+
+/**
+ * Options for zoomToRect
+ */
+export interface ZoomToRectOptions extends ZoomActionOptions {
+  /**
+   * Space in screen pixels to keep around the rect. Default is 0.
+   */
+  padding?: number
+}
+
+/**
+ * Snapshot of the current zoom transform
+ */
+export interface ZoomState {
+  scale: number
+  translateX: number
+  translateY: number
+  /**
+   * Content rotation in degrees
+   */
+  rotation: number
+}
+
+/**
+ * Pointer location reported to tap/press callbacks
+ * screen: point in container coordinates
+ * content: same point in unscaled content coordinates (relative to content top-left)
+ */
+export interface ZoomPointEvent {
+  screen: Offset
+  content: Offset
+}
+
+/**
+ * Imperative zoom controls.
+ * Exposed through the Zoom component ref and returned from useZoomGesture.
+ */
+export interface ZoomRef {
+  /**
+   * Zoom to a scale (clamped to minScale/maxScale) around a focal point
+   * in container coordinates. Focal point defaults to the container center.
+   */
+  zoomTo: (scale: number, focal?: Offset, options?: ZoomActionOptions) => void
+  /**
+   * Reset to minScale with centered content.
+   */
+  reset: (animated?: boolean) => void
+  /**
+   * Pan by a delta in screen pixels from the target of any running animation, clamped to the bounds.
+   */
+  panBy: (dx: number, dy: number, options?: ZoomActionOptions) => void
+  /**
+   * Center the container on a point in content coordinates
+   * (unscaled, relative to the content's top-left corner).
+   */
+  centerOn: (x: number, y: number, options?: ZoomActionOptions) => void
+  /**
+   * Zoom so a rect in content coordinates fills the container.
+   */
+  zoomToRect: (rect: Rect, options?: ZoomToRectOptions) => void
+  /**
+   * Rotate the content by an angle in degrees (positive is clockwise).
+   */
+  rotateBy: (degrees: number, options?: ZoomActionOptions) => void
+  /**
+   * Read the current scale, translation and rotation.
+   */
+  getState: () => ZoomState
+  /**
+   * Read the viewport in resolution-independent form: normalized content
+   * center (0..1) and scale relative to fitting the container.
+   */
+  getViewport: () => Viewport
+  /**
+   * Restore a viewport saved with getViewport, e.g. on another device or after rotation.
+   */
+  setViewport: (viewport: Viewport, options?: ZoomActionOptions) => void
+  /**
+   * Handle a key press (KeyboardEvent.key value) when keyboardControls is enabled.
+   * Wired automatically on web; call it from your own key event source on native.
+   * Returns true when the key was handled, false while the component is disabled.
+   */
+  handleKeyPress: (key: string) => boolean
+  /**
+   * Tell the page that the parent list finished scrolling (e.g. from onMomentumScrollEnd).
+   * Resets the zoom if this page was swiped away with gallery swipe.
+   */
+  notifyPageSettled: () => void
 }
 
 /**
@@ -116,12 +468,204 @@ export interface UseZoomGestureProps {
    * Required when using parentScrollRef. Usually equals device width.
    */
   itemWidth?: number
+  /**
+   * Scroll axis of the parent list. 'vertical' hands top/bottom overflow to the
+   * parent (e.g. vertically paged feeds). Default is 'horizontal'.
+   */
+  gallerySwipeDirection?: GallerySwipeDirection
+  /**
+   * Height of each item in the parent list (for calculating scroll offset).
+   * Required when using parentScrollRef with gallerySwipeDirection 'vertical'.
+   */
+  itemHeight?: number
+  /**
+   * Whether the parent list is inverted (FlatList `inverted` prop), so the next item
+   * comes before the current one on screen. RTL layouts are detected automatically.
+   * Default is false.
+   */
+  inverted?: boolean
+  /**
+   * Scroll offset of an item in the parent list, for separators, headers or
+   * mixed-size items. Replaces `index * itemWidth` (or itemHeight) when provided.
+   */
+  getItemOffset?: (index: number) => number
+  /**
+   * Number of items in the parent list. Swiping past the last item rubber-bands
+   * instead of scrolling the parent.
+   */
+  itemCount?: number
+  /**
+   * Drives a custom parent pager instead of parentScrollRef, e.g. createSharedValuePagerAdapter
+   * for a Reanimated pager or your own adapter.
+   */
+  pagerAdapter?: PagerAdapter
+  /**
+   * Index of the page currently settled in the parent list. When it moves away from
+   * currentIndex, this page is off-screen and its zoom is reset. When set, a swiped-away
+   * page waits for this (or notifyPageSettled) instead of resetting after a fixed delay.
+   */
+  activeIndex?: number
+  /**
+   * A swiped-away page resets only when notifyPageSettled is called (e.g. from
+   * onMomentumScrollEnd), without the fixed-delay fallback. Implied by activeIndex.
+   * Default is false.
+   */
+  resetOnPageSettle?: boolean
+  /**
+   * Called on the JS thread when a gallery swipe snaps to a neighbouring page,
+   * as the parent list starts scrolling to it.
+   */
+  onRequestPageChange?: (nextIndex: number, direction: PageChangeDirection) => void
+  /**
+   * Called on the JS thread with the page a gallery swipe snaps to
+   * (the current index when snapping back).
+   */
+  onPageSnap?: (index: number) => void
+  /**
+   * Scale to start at. Clamped to minScale/maxScale. Default is minScale.
+   */
+  initialScale?: number
+  /**
+   * Translation (screen pixels from centered) to start at.
+   * Clamped to bounds once container and content are measured.
+   */
+  initialTranslate?: Offset
+  /**
+   * Point in content coordinates to center the container on at start.
+   * Takes precedence over initialTranslate.
+   */
+  initialFocalPoint?: Offset
+  /**
+   * Controlled mode: externally owned scale SharedValue.
+   * When provided, the hook reads and writes it instead of its own state.
+   */
+  scale?: SharedValue<number>
+  /**
+   * Controlled mode: externally owned X translation SharedValue (screen pixels from centered).
+   */
+  translateX?: SharedValue<number>
+  /**
+   * Controlled mode: externally owned Y translation SharedValue (screen pixels from centered).
+   */
+  translateY?: SharedValue<number>
+  /**
+   * Called on the JS thread with the target transform whenever a gesture or
+   * action settles on a new transform. Use it to commit the transform to app state.
+   */
+  onTransformEnd?: (state: ZoomState) => void
+  /**
+   * Sync group from useZoomSync. Pinch/pan in any member is mirrored in the others.
+   */
+  syncGroup?: ZoomSyncGroup
+  /**
+   * How this instance mirrors the group: 'absolute' copies scale/translation,
+   * 'normalized' matches the normalized viewport (for contents of different sizes).
+   * Default is 'normalized'.
+   */
+  syncMode?: ZoomSyncMode
+  /**
+   * Enable one-finger quick zoom: double-tap and hold, then drag down to zoom in
+   * or up to zoom out around the tap point (Google Maps / iOS style).
+   * Default is false.
+   */
+  enableQuickZoom?: boolean
+  /**
+   * Called on the JS thread after a single tap, once the double tap has failed.
+   */
+  onSingleTap?: (event: ZoomPointEvent) => void
+  /**
+   * Worklet variant of onSingleTap, called on the UI thread.
+   */
+  onSingleTapWorklet?: (event: ZoomPointEvent) => void
+  /**
+   * Called on the JS thread when the user long-presses the content.
+   * Not fired if a pinch or pan is already in progress.
+   */
+  onLongPress?: (event: ZoomPointEvent) => void
+  /**
+   * Minimum press duration in ms before onLongPress fires. Default is 500.
+   */
+  longPressMinDuration?: number
+  /**
+   * Enable two-finger rotation. Rotation snaps to the nearest 90° on release.
+   * Default is false.
+   */
+  enableRotation?: boolean
+  /**
+   * Enable two-finger tap to zoom out one step around the midpoint of the touches.
+   * Default is false.
+   */
+  enableTwoFingerTap?: boolean
+  /**
+   * Factor the scale is divided by on a two-finger tap. Default is 2.
+   */
+  twoFingerTapZoomOutFactor?: number
+  /**
+   * Mouse wheel and trackpad zoom configuration (react-native-web).
+   */
+  wheelConfig?: WheelConfig
+  /**
+   * Enable keyboard controls: +/- zoom, 0 resets, arrow keys pan when zoomed.
+   * Pass a config object to change key bindings and step sizes. Default is false.
+   */
+  keyboardControls?: boolean | KeyboardControlsConfig
+  /**
+   * Screen reader actions, zoom value and announcements.
+   */
+  accessibilityConfig?: ZoomAccessibilityConfig
+  /**
+   * Enable one-finger drag down at minScale to dismiss (full-screen viewers).
+   * The content follows the finger and shrinks. Default is false.
+   */
+  enableSwipeToDismiss?: boolean
+  /**
+   * Called on the JS thread when a dismiss swipe passes the distance or velocity threshold.
+   */
+  onDismiss?: () => void
+  /**
+   * Distance and velocity thresholds for swipe-to-dismiss.
+   */
+  dismissConfig?: DismissConfig
+  /**
+   * Optional SharedValue receiving the dismiss drag progress (0..1), e.g. to fade a backdrop.
+   * Reaches 1 after dragging half the container height.
+   */
+  dismissProgress?: SharedValue<number>
+  /**
+   * Enables pinch-to-close (iOS Photos style): called on the JS thread when a pinch is
+   * released below the pinchDismissConfig threshold, instead of springing back to minScale.
+   */
+  onPinchDismiss?: () => void
+  /**
+   * Threshold and out animation for pinch-to-close.
+   */
+  pinchDismissConfig?: PinchDismissConfig
+  /**
+   * Enable all gestures and wheel/keyboard/screen reader input. Toggling keeps the
+   * current transform. Imperative methods keep working, except handleKeyPress and
+   * handleAccessibilityAction, which are input. Default is true.
+   */
+  enabled?: boolean
+  /**
+   * Enable the pinch gesture, rotation, two-finger tap and ctrl/meta+wheel zoom.
+   * Default is true.
+   */
+  pinchEnabled?: boolean
+  /**
+   * Enable panning (including gallery edge swipes and swipe-to-dismiss) and wheel panning.
+   * Default is true.
+   */
+  panEnabled?: boolean
+  /**
+   * Enable double tap to zoom and double-tap-and-drag quick zoom. Default is true.
+   */
+  doubleTapEnabled?: boolean
 }
 
 /**
  * Return type for useZoomGesture hook
  */
-export interface UseZoomGestureReturn {
+export interface UseZoomGestureReturn extends ZoomRef {
   // Use the version's own return type for Gesture.Simultaneous so the public
   // API stays compatible across react-native-gesture-handler v2 (ComposedGesture)
   // and v3 (SimultaneousGesture).
@@ -129,6 +673,17 @@ export interface UseZoomGestureReturn {
   contentContainerAnimatedStyle: ReturnType<typeof useAnimatedStyle>
   onLayout: (event: LayoutChangeEvent) => void
   onLayoutContent: (event: LayoutChangeEvent) => void
+  /**
+   * Wheel handler for react-native-web. Plain wheel pans when zoomed,
+   * ctrl/meta+wheel (trackpad pinch) zooms around the cursor.
+   * Returns true when the event was consumed and the default should be prevented.
+   */
+  onWheel: (event: ZoomWheelEvent) => boolean
+  /**
+   * Perform a screen reader action: increment/decrement, magicTap or a ZoomAccessibilityAction.
+   * Returns true when the action was handled.
+   */
+  handleAccessibilityAction: (actionName: string) => boolean
   zoomOut: () => void
   isZoomedIn: SharedValue<boolean>
   zoomGestureLastTime: SharedValue<number>
@@ -138,6 +693,14 @@ export interface UseZoomGestureReturn {
    * Updated in real-time during pinch gestures without JS bridge overhead.
    */
   scale: SharedValue<number>
+  /**
+   * Current content rotation in degrees as SharedValue.
+   */
+  rotation: SharedValue<number>
+  /**
+   * Swipe-to-dismiss drag progress (0..1) as SharedValue.
+   */
+  dismissProgress: SharedValue<number>
 }
 
 /**
@@ -161,21 +724,99 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
     parentScrollRef,
     currentIndex = 0,
     itemWidth = 0,
+    gallerySwipeDirection = 'horizontal',
+    itemHeight = 0,
+    inverted = false,
+    getItemOffset,
+    itemCount,
+    pagerAdapter,
+    activeIndex,
+    resetOnPageSettle = false,
+    onRequestPageChange,
+    onPageSnap,
+    initialScale,
+    initialTranslate,
+    initialFocalPoint,
+    scale: controlledScale,
+    translateX: controlledTranslateX,
+    translateY: controlledTranslateY,
+    onTransformEnd,
+    syncGroup,
+    syncMode = 'normalized',
+    enableQuickZoom = false,
+    onSingleTap,
+    onSingleTapWorklet,
+    onLongPress,
+    longPressMinDuration = LONG_PRESS_MIN_DURATION,
+    enableRotation = false,
+    enableTwoFingerTap = false,
+    twoFingerTapZoomOutFactor = TWO_FINGER_TAP_ZOOM_OUT_FACTOR,
+    wheelConfig,
+    keyboardControls = false,
+    accessibilityConfig,
+    enableSwipeToDismiss = false,
+    onDismiss,
+    dismissConfig,
+    dismissProgress: controlledDismissProgress,
+    onPinchDismiss,
+    pinchDismissConfig,
+    enabled = true,
+    pinchEnabled = true,
+    panEnabled = true,
+    doubleTapEnabled = true,
   } = props
 
   // Boolean flag for worklet (refs can't be passed to worklets)
-  const hasParentScroll = !!parentScrollRef && itemWidth > 0
+  const isVerticalGallery = gallerySwipeDirection === 'vertical'
+  const itemSize = isVerticalGallery ? itemHeight : itemWidth
+  const hasParentScroll = (!!parentScrollRef || !!pagerAdapter) && (itemSize > 0 || !!getItemOffset)
+  // -1 when the next item is to the left/above on screen (RTL horizontal list or inverted list)
+  const galleryDirectionSign = (!isVerticalGallery && I18nManager.isRTL) !== inverted ? -1 : 1
+
+  // Parent scroll offsets of the current item and its neighbours (JS thread, read by worklets).
+  // A missing neighbour keeps the current offset so snapping can't leave the list.
+  const galleryOffsets = useMemo(
+    () => getGalleryOffsets(currentIndex, itemSize, itemCount, getItemOffset),
+    [getItemOffset, itemSize, currentIndex, itemCount]
+  )
+
+  // Initial transform - scale is known before layout, translation is clamped after
+  const startScale = clamp(initialScale ?? minScale, minScale, maxScale)
+  const startTranslateX = initialTranslate?.x ?? 0
+  const startTranslateY = initialTranslate?.y ?? 0
+  const hasInitialTransform = initialScale !== undefined
+    || initialTranslate !== undefined
+    || initialFocalPoint !== undefined
+
+  // Sorted double tap zoom steps within the scale limits
+  const doubleTapSteps = doubleTapConfig?.steps
+  const zoomSteps = useMemo(
+    () => doubleTapSteps
+      ?.map(step => clamp(step, minScale, maxScale))
+      .sort((a, b) => a - b),
+    [doubleTapSteps, minScale, maxScale]
+  )
+  const stepBehavior = doubleTapConfig?.stepBehavior ?? 'cycle'
 
   // ============== STATE ==============
-  // Scale state - single source of truth
-  const scale = useSharedValue(1)
-  const savedScale = useSharedValue(1)
+  // Scale state - single source of truth (externally owned in controlled mode)
+  const internalScale = useSharedValue(startScale)
+  const scale = controlledScale ?? internalScale
+  const savedScale = useSharedValue(startScale)
 
   // Translation state (in screen coordinates)
-  const translateX = useSharedValue(0)
-  const translateY = useSharedValue(0)
-  const savedTranslateX = useSharedValue(0)
-  const savedTranslateY = useSharedValue(0)
+  const internalTranslateX = useSharedValue(startTranslateX)
+  const internalTranslateY = useSharedValue(startTranslateY)
+  const translateX = controlledTranslateX ?? internalTranslateX
+  const translateY = controlledTranslateY ?? internalTranslateY
+  const isControlled = !!controlledScale || !!controlledTranslateX || !!controlledTranslateY
+  const savedTranslateX = useSharedValue(startTranslateX)
+  const savedTranslateY = useSharedValue(startTranslateY)
+
+  // Rotation state in degrees (savedRotation holds the committed/snapped target)
+  const rotation = useSharedValue(0)
+  const savedRotation = useSharedValue(0)
+  const isRotating = useSharedValue(false)
 
   // Container and content dimensions
   const containerDimensions = useSharedValue<Dimensions>({ width: 0, height: 0 })
@@ -189,31 +830,151 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
   // Pan gesture state for rubber band effect
   const isPanning = useSharedValue(false)
 
+  // Quick zoom state (double-tap and drag)
+  const quickZoomLastTapTime = useSharedValue(0)
+  const quickZoomLastTapX = useSharedValue(0)
+  const quickZoomLastTapY = useSharedValue(0)
+  const quickZoomFocalX = useSharedValue(0)
+  const quickZoomFocalY = useSharedValue(0)
+  const isQuickZoomCandidate = useSharedValue(false)
+  const isQuickZooming = useSharedValue(false)
+
+  // Running scale/translate animations started by the hook (see adoptLiveTransform)
+  const ownAnimationCount = useSharedValue(0)
+
+  // Two-finger tap state
+  const twoFingerTapFocalX = useSharedValue(0)
+  const twoFingerTapFocalY = useSharedValue(0)
+  const twoFingerTapTime = useSharedValue(0)
+
   // Edge swipe state for Apple Photos-style gallery navigation
-  const isAtLeftEdge = useSharedValue(false)
-  const isAtRightEdge = useSharedValue(false)
+  // Start edge is left (horizontal) or top (vertical), end edge is right or bottom
+  const isAtStartEdge = useSharedValue(false)
+  const isAtEndEdge = useSharedValue(false)
   const panStartX = useSharedValue(0)
+  const panStartY = useSharedValue(0)
   const accumulatedOverflow = useSharedValue(0) // Track overflow for snap decision
 
+  // Swipe-to-dismiss state (offset applied on top of the zoom transform)
+  const internalDismissProgress = useSharedValue(0)
+  const dismissProgress = controlledDismissProgress ?? internalDismissProgress
+  const dismissTranslateX = useSharedValue(0)
+  const dismissTranslateY = useSharedValue(0)
+  const dismissScale = useSharedValue(1)
+  const dismissOpacity = useSharedValue(1)
+  const isDismissing = useSharedValue(false)
+  const dismissDistanceThreshold = dismissConfig?.distanceThreshold ?? DISMISS_DISTANCE_THRESHOLD
+  const dismissVelocityThreshold = dismissConfig?.velocityThreshold ?? DISMISS_VELOCITY_THRESHOLD
+  const pinchDismissScale = minScale * (pinchDismissConfig?.scaleThreshold ?? PINCH_DISMISS_SCALE_THRESHOLD)
+  const shouldAnimatePinchDismiss = pinchDismissConfig?.animateOut ?? true
+
   // Tracking state
-  const isZoomedIn = useSharedValue(false)
+  const isZoomedIn = useSharedValue(startScale > minScale)
   const zoomGestureLastTime = useSharedValue(0)
 
+  // Layout tracking for applying the initial transform once (JS thread only)
+  const hasContainerLayout = useRef(false)
+  const hasContentLayout = useRef(false)
+  const isInitialTransformApplied = useRef(false)
+
+  // Set when a gallery swipe leaves this page, cleared once the parent scroll settles
+  const hasPendingPageReset = useRef(false)
+  const pageSettleFallbackTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // Identity within a sync group
+  const [syncMemberId] = useState(createSyncMemberId)
+
   // ============== HELPERS ==============
 
   const withAnimation = useCallback(
-    (toValue: number, config?: AnimationConfigProps) => {
+    (toValue: number, config?: AnimationConfigProps, callback?: AnimationCallback) => {
       'worklet'
       return animationFunction(toValue, {
         duration: ANIMATION_DURATION,
         easing: Easing.out(Easing.cubic),
         ...config,
         ...animationConfig,
-      })
+      }, callback)
     },
     [animationFunction, animationConfig]
   )
 
+  /**
+   * Take the live transform as the saved base (steps, panBy, rotateBy),
+   * unless a gesture or one of our own animations is driving it
+   */
+  const adoptLiveTransform = useCallback((): void => {
+    'worklet'
+    if (
+      ownAnimationCount.value > 0
+      || isPinching.value
+      || isPanning.value
+      || isRotating.value
+      || isQuickZooming.value
+    )
+      return
+
+    savedScale.value = scale.value
+    savedTranslateX.value = translateX.value
+    savedTranslateY.value = translateY.value
+
+    const zoomed = scale.value > minScale + 0.01
+    if (isZoomedIn.value !== zoomed)
+      isZoomedIn.value = zoomed
+  }, [
+    ownAnimationCount,
+    isPinching,
+    isPanning,
+    isRotating,
+    isQuickZooming,
+    scale,
+    translateX,
+    translateY,
+    savedScale,
+    savedTranslateX,
+    savedTranslateY,
+    isZoomedIn,
+    minScale,
+  ])
+
+  /**
+   * Callback of our own scale/translate animations. Once the last one settles (or the
+   * owner interrupts it), the live values are the new base - e.g. a decay's rest position.
+   */
+  const endOwnAnimation = useCallback((): void => {
+    'worklet'
+    ownAnimationCount.value = Math.max(0, ownAnimationCount.value - 1)
+    if (ownAnimationCount.value === 0)
+      adoptLiveTransform()
+  }, [ownAnimationCount, adoptLiveTransform])
+
+  /**
+   * Become the driver of the sync group so our transform is mirrored by the others
+   */
+  const claimSync = useCallback((): void => {
+    'worklet'
+    if (syncGroup && syncGroup.driverId.value !== syncMemberId)
+      syncGroup.driverId.value = syncMemberId
+  }, [syncGroup, syncMemberId])
+
+  /**
+   * Report a settled target transform to onTransformEnd (controlled mode commit)
+   */
+  const notifyTransformEnd = useCallback((
+    targetScale: number,
+    tx: number,
+    ty: number
+  ): void => {
+    'worklet'
+    if (onTransformEnd)
+      runOnJS(onTransformEnd)({
+        scale: targetScale,
+        translateX: tx,
+        translateY: ty,
+        rotation: savedRotation.value,
+      })
+  }, [onTransformEnd, savedRotation])
+
   /**
    * Calculate the maximum translation bounds for a given scale
    * This ensures the content edges don't go past the container edges
@@ -225,13 +986,22 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
    *
    * IMPORTANT: Use actual contentDimensions from onLayoutContent, not calculated
    * aspect-fit size. Layout system may round dimensions differently than our math.
+   *
+   * Rotated content uses its bounding box. Defaults to the live rotation while
+   * rotating and to the committed (snapped) rotation otherwise.
    */
-  const getTranslateBounds = useCallback((currentScale: number): { maxX: number; maxY: number } => {
+  const getTranslateBounds = useCallback((
+    currentScale: number,
+    currentRotation?: number
+  ): { maxX: number; maxY: number } => {
     'worklet'
     const container = containerDimensions.value
     // Use actual measured content dimensions, not calculated aspect-fit size
     // This ensures bounds match exactly what's rendered on screen
-    const content = contentDimensions.value
+    const content = getRotatedSize(
+      contentDimensions.value,
+      currentRotation ?? (isRotating.value ? rotation.value : savedRotation.value)
+    )
 
     // Scaled content dimensions
     const scaledWidth = content.width * currentScale
@@ -251,7 +1021,7 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
       maxX: Math.max(0, Math.floor(excessWidth / 2) - safetyPadding),
       maxY: Math.max(0, Math.floor(excessHeight / 2) - safetyPadding),
     }
-  }, [containerDimensions, contentDimensions])
+  }, [containerDimensions, contentDimensions, rotation, savedRotation, isRotating])
 
   /**
    * Clamp translation to valid bounds
@@ -259,10 +1029,11 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
   const clampTranslation = useCallback((
     tx: number,
     ty: number,
-    currentScale: number
+    currentScale: number,
+    currentRotation?: number
   ): { x: number; y: number } => {
     'worklet'
-    const bounds = getTranslateBounds(currentScale)
+    const bounds = getTranslateBounds(currentScale, currentRotation)
     return {
       x: clamp(tx, -bounds.maxX, bounds.maxX),
       y: clamp(ty, -bounds.maxY, bounds.maxY),
@@ -291,6 +1062,24 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
     return value
   }, [])
 
+  /**
+   * Apply rubber band to scale outside minScale/maxScale during gesture
+   */
+  const applyRubberBandScale = useCallback((newScale: number): number => {
+    'worklet'
+    if (newScale < minScale) {
+      // Rubber band for zoom out below minScale
+      const overZoom = minScale - newScale
+      return Math.max(minScale - overZoom * RUBBER_BAND_FACTOR, minScale * MIN_OVER_SCALE)
+    }
+    if (newScale > maxScale) {
+      // Rubber band for zoom in above max
+      const overZoom = newScale - maxScale
+      return Math.min(maxScale + overZoom * RUBBER_BAND_FACTOR, maxScale * 1.5)
+    }
+    return newScale
+  }, [minScale, maxScale])
+
   /**
    * Apply rubber band to translation during gesture
    */
@@ -318,6 +1107,8 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
   ): void => {
     'worklet'
 
+    claimSync()
+
     const clampedScale = clamp(targetScale, minScale, maxScale)
     const { x: clampedX, y: clampedY } = clampTranslation(
       translateX.value,
@@ -328,9 +1119,10 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
     if (animate) {
       // Apple uses spring animation for snap-back
       // Using gentle spring config to avoid excessive bounce (fix for #51)
-      scale.value = withSpring(clampedScale, SPRING_CONFIG)
-      translateX.value = withSpring(clampedX, SPRING_CONFIG)
-      translateY.value = withSpring(clampedY, SPRING_CONFIG)
+      ownAnimationCount.value += 3
+      scale.value = withSpring(clampedScale, SPRING_CONFIG, endOwnAnimation)
+      translateX.value = withSpring(clampedX, SPRING_CONFIG, endOwnAnimation)
+      translateY.value = withSpring(clampedY, SPRING_CONFIG, endOwnAnimation)
     }
     else {
       scale.value = clampedScale
@@ -343,7 +1135,10 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
     savedTranslateY.value = clampedY
 
     isZoomedIn.value = clampedScale > minScale
+    notifyTransformEnd(clampedScale, clampedX, clampedY)
   }, [
+    ownAnimationCount,
+    endOwnAnimation,
     scale,
     translateX,
     translateY,
@@ -352,29 +1147,93 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
     savedTranslateY,
     isZoomedIn,
     clampTranslation,
+    claimSync,
+    notifyTransformEnd,
     minScale,
     maxScale,
   ])
 
+  /**
+   * Map a point in container coordinates to unscaled content coordinates
+   */
+  const toContentPoint = useCallback((x: number, y: number): Offset => {
+    'worklet'
+    const container = containerDimensions.value
+    const content = contentDimensions.value
+
+    // Content is centered in the container, scaled and rotated around its center
+    const offset = rotatePoint(
+      (x - container.width / 2 - translateX.value) / scale.value,
+      (y - container.height / 2 - translateY.value) / scale.value,
+      -rotation.value
+    )
+    return {
+      x: content.width / 2 + offset.x,
+      y: content.height / 2 + offset.y,
+    }
+  }, [containerDimensions, contentDimensions, translateX, translateY, scale, rotation])
+
   // ============== ZOOM ACTIONS ==============
 
   /**
-   * Zoom in to a point (double-tap)
-   * Apple Photos behavior: zoom to 2x (or configured scale) centered on tap point
+   * Write a target transform to the shared values and keep saved/zoomed state in sync
    */
-  const zoomIn = useCallback((focalX: number, focalY: number): void => {
+  const setTransform = useCallback((
+    targetScale: number,
+    tx: number,
+    ty: number,
+    animate: boolean = true
+  ): void => {
     'worklet'
 
-    const container = containerDimensions.value
-    const targetScale = doubleTapConfig?.defaultScale
-      ?? doubleTapConfig?.minZoomScale
-      ?? DOUBLE_TAP_SCALE
+    claimSync()
 
-    const clampedTargetScale = clamp(
-      targetScale,
-      doubleTapConfig?.minZoomScale ?? minScale,
-      doubleTapConfig?.maxZoomScale ?? maxScale
-    )
+    if (animate) {
+      ownAnimationCount.value += 3
+      scale.value = withAnimation(targetScale, undefined, endOwnAnimation)
+      translateX.value = withAnimation(tx, undefined, endOwnAnimation)
+      translateY.value = withAnimation(ty, undefined, endOwnAnimation)
+    }
+    else {
+      scale.value = targetScale
+      translateX.value = tx
+      translateY.value = ty
+    }
+
+    savedScale.value = targetScale
+    savedTranslateX.value = tx
+    savedTranslateY.value = ty
+
+    isZoomedIn.value = targetScale > minScale
+    notifyTransformEnd(targetScale, tx, ty)
+  }, [
+    ownAnimationCount,
+    endOwnAnimation,
+    scale,
+    translateX,
+    translateY,
+    savedScale,
+    savedTranslateX,
+    savedTranslateY,
+    isZoomedIn,
+    withAnimation,
+    claimSync,
+    notifyTransformEnd,
+    minScale,
+  ])
+
+  /**
+   * Zoom to a scale keeping a point (in container coordinates) stationary
+   */
+  const zoomToPoint = useCallback((
+    targetScale: number,
+    focalX: number,
+    focalY: number,
+    animate: boolean = true
+  ): void => {
+    'worklet'
+
+    const container = containerDimensions.value
 
     // Container center
     const centerX = container.width / 2
@@ -395,36 +1254,59 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
     const contentPointX = (focalOffsetX - currentTx) / currentScale
     const contentPointY = (focalOffsetY - currentTy) / currentScale
 
-    let newTx = focalOffsetX - contentPointX * clampedTargetScale
-    let newTy = focalOffsetY - contentPointY * clampedTargetScale
+    const newTx = focalOffsetX - contentPointX * targetScale
+    const newTy = focalOffsetY - contentPointY * targetScale
 
     // Clamp to bounds
-    const clamped = clampTranslation(newTx, newTy, clampedTargetScale)
-    newTx = clamped.x
-    newTy = clamped.y
-
-    // Animate
-    scale.value = withAnimation(clampedTargetScale)
-    translateX.value = withAnimation(newTx)
-    translateY.value = withAnimation(newTy)
-
-    savedScale.value = clampedTargetScale
-    savedTranslateX.value = newTx
-    savedTranslateY.value = newTy
+    const clamped = clampTranslation(newTx, newTy, targetScale)
 
-    isZoomedIn.value = true
+    setTransform(targetScale, clamped.x, clamped.y, animate)
   }, [
     containerDimensions,
     scale,
     translateX,
     translateY,
-    savedScale,
-    savedTranslateX,
-    savedTranslateY,
-    isZoomedIn,
-    doubleTapConfig,
-    withAnimation,
     clampTranslation,
+    setTransform,
+  ])
+
+  /**
+   * Zoom in to a point (double-tap)
+   * Apple Photos behavior: zoom to 2x (or configured scale) centered on tap point
+   */
+  const zoomIn = useCallback((focalX: number, focalY: number): void => {
+    'worklet'
+
+    let targetScale = doubleTapConfig?.defaultScale
+      ?? doubleTapConfig?.minZoomScale
+      ?? DOUBLE_TAP_SCALE
+
+    const mode = doubleTapConfig?.mode ?? 'fixed'
+    if (mode !== 'fixed') {
+      const fitScale = getScaleFromDimensions(
+        getRotatedSize(contentDimensions.value, savedRotation.value),
+        containerDimensions.value,
+        mode
+      )
+
+      // Content already fills that axis: keep the fixed scale so the double tap still zooms
+      if (fitScale > minScale + 0.01)
+        targetScale = fitScale
+    }
+
+    const clampedTargetScale = clamp(
+      targetScale,
+      doubleTapConfig?.minZoomScale ?? minScale,
+      doubleTapConfig?.maxZoomScale ?? maxScale
+    )
+
+    zoomToPoint(clampedTargetScale, focalX, focalY)
+  }, [
+    doubleTapConfig,
+    contentDimensions,
+    containerDimensions,
+    savedRotation,
+    zoomToPoint,
     minScale,
     maxScale,
   ])
@@ -432,58 +1314,496 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
   /**
    * Zoom out to minimum scale
    */
-  const zoomOut = useCallback((): void => {
+  const zoomOut = useCallback((animate: boolean = true): void => {
     'worklet'
+    setTransform(minScale, 0, 0, animate)
+  }, [setTransform, minScale])
+
+  /**
+   * Zoom to a scale around a focal point in container coordinates.
+   * Focal point defaults to the container center.
+   */
+  const zoomTo = useCallback((
+    targetScale: number,
+    focal?: Offset,
+    options?: ZoomActionOptions
+  ): void => {
+    'worklet'
+    const container = containerDimensions.value
 
-    scale.value = withAnimation(minScale)
-    translateX.value = withAnimation(0)
-    translateY.value = withAnimation(0)
+    zoomToPoint(
+      clamp(targetScale, minScale, maxScale),
+      focal?.x ?? container.width / 2,
+      focal?.y ?? container.height / 2,
+      options?.animated ?? true
+    )
+  }, [containerDimensions, zoomToPoint, minScale, maxScale])
 
-    savedScale.value = minScale
-    savedTranslateX.value = 0
-    savedTranslateY.value = 0
+  /**
+   * Reset to minimum scale and centered content
+   */
+  const reset = useCallback((animated: boolean = true): void => {
+    'worklet'
+    savedRotation.value = 0
+    rotation.value = animated ? withAnimation(0) : 0
+    dismissTranslateX.value = animated ? withAnimation(0) : 0
+    dismissTranslateY.value = animated ? withAnimation(0) : 0
+    dismissScale.value = animated ? withAnimation(1) : 1
+    dismissOpacity.value = animated ? withAnimation(1) : 1
+    dismissProgress.value = animated ? withAnimation(0) : 0
+    zoomOut(animated)
+  }, [
+    zoomOut,
+    withAnimation,
+    rotation,
+    savedRotation,
+    dismissTranslateX,
+    dismissTranslateY,
+    dismissScale,
+    dismissOpacity,
+    dismissProgress,
+  ])
 
-    isZoomedIn.value = false
+  /**
+   * Rotate by an angle in degrees, keeping the scale and re-clamping translation
+   */
+  const rotateBy = useCallback((degrees: number, options?: ZoomActionOptions): void => {
+    'worklet'
+    const animate = options?.animated ?? true
+    const targetRotation = savedRotation.value + degrees
+    savedRotation.value = targetRotation
+    rotation.value = animate ? withAnimation(targetRotation) : targetRotation
+
+    const currentScale = savedScale.value
+    const clamped = clampTranslation(translateX.value, translateY.value, currentScale, targetRotation)
+    setTransform(currentScale, clamped.x, clamped.y, animate)
   }, [
-    scale,
+    rotation,
+    savedRotation,
+    savedScale,
     translateX,
     translateY,
-    savedScale,
-    savedTranslateX,
-    savedTranslateY,
-    isZoomedIn,
     withAnimation,
+    clampTranslation,
+    setTransform,
+  ])
+
+  /**
+   * Pan by a delta in screen pixels, clamped to bounds at the current scale
+   */
+  const panBy = useCallback((dx: number, dy: number, options?: ZoomActionOptions): void => {
+    'worklet'
+    // From the committed target, so repeated calls (held arrow keys) add up while animating
+    const currentScale = savedScale.value
+    const clamped = clampTranslation(
+      savedTranslateX.value + dx,
+      savedTranslateY.value + dy,
+      currentScale
+    )
+
+    setTransform(currentScale, clamped.x, clamped.y, options?.animated ?? true)
+  }, [savedScale, savedTranslateX, savedTranslateY, clampTranslation, setTransform])
+
+  /**
+   * Move a point in content coordinates (unscaled, relative to content top-left)
+   * to the center of the container, keeping the current scale
+   */
+  const centerOn = useCallback((x: number, y: number, options?: ZoomActionOptions): void => {
+    'worklet'
+    const content = contentDimensions.value
+    const currentScale = scale.value
+
+    // Content is centered in the container, so translating by the point's
+    // offset from the content center (rotated and scaled) brings it to the container center
+    const offset = rotatePoint(x - content.width / 2, y - content.height / 2, savedRotation.value)
+    const clamped = clampTranslation(
+      -offset.x * currentScale,
+      -offset.y * currentScale,
+      currentScale
+    )
+
+    setTransform(currentScale, clamped.x, clamped.y, options?.animated ?? true)
+  }, [contentDimensions, scale, savedRotation, clampTranslation, setTransform])
+
+  /**
+   * Fit a rect in content coordinates into the container (minus padding)
+   * and center it, clamped to scale limits and translation bounds
+   */
+  const zoomToRect = useCallback((rect: Rect, options?: ZoomToRectOptions): void => {
+    'worklet'
+    const container = containerDimensions.value
+    const content = contentDimensions.value
+    const padding = options?.padding ?? 0
+
+    if (rect.width <= 0 || rect.height <= 0)
+      return
+
+    const currentRotation = savedRotation.value
+    const rotatedRect = getRotatedSize(rect, currentRotation)
+    const availableWidth = Math.max(1, container.width - padding * 2)
+    const availableHeight = Math.max(1, container.height - padding * 2)
+    const targetScale = clamp(
+      Math.min(availableWidth / rotatedRect.width, availableHeight / rotatedRect.height),
+      minScale,
+      maxScale
+    )
+
+    // Move the rect center to the container center
+    const offset = rotatePoint(
+      rect.x + rect.width / 2 - content.width / 2,
+      rect.y + rect.height / 2 - content.height / 2,
+      currentRotation
+    )
+    const clamped = clampTranslation(
+      -offset.x * targetScale,
+      -offset.y * targetScale,
+      targetScale
+    )
+
+    setTransform(targetScale, clamped.x, clamped.y, options?.animated ?? true)
+  }, [
+    containerDimensions,
+    contentDimensions,
+    savedRotation,
+    clampTranslation,
+    setTransform,
     minScale,
+    maxScale,
   ])
 
+  /**
+   * Snapshot of the current transform
+   */
+  const getState = useCallback((): ZoomState => {
+    'worklet'
+    return {
+      scale: scale.value,
+      translateX: translateX.value,
+      translateY: translateY.value,
+      rotation: rotation.value,
+    }
+  }, [scale, translateX, translateY, rotation])
+
+  /**
+   * Current transform as a resolution-independent viewport
+   */
+  const getViewport = useCallback((): Viewport => {
+    'worklet'
+    return transformToViewport(
+      getState(),
+      contentDimensions.value,
+      containerDimensions.value,
+      savedRotation.value
+    )
+  }, [getState, contentDimensions, containerDimensions, savedRotation])
+
+  /**
+   * Apply a resolution-independent viewport, clamped to scale limits and bounds
+   */
+  const setViewport = useCallback((viewport: Viewport, options?: ZoomActionOptions): void => {
+    'worklet'
+    const target = viewportToTransform(
+      viewport,
+      contentDimensions.value,
+      containerDimensions.value,
+      savedRotation.value
+    )
+    const targetScale = clamp(target.scale, minScale, maxScale)
+    // Re-derive translation for the clamped scale so the center point is kept
+    const ratio = targetScale / target.scale
+    const clamped = clampTranslation(
+      target.translateX * ratio,
+      target.translateY * ratio,
+      targetScale
+    )
+
+    setTransform(targetScale, clamped.x, clamped.y, options?.animated ?? true)
+  }, [
+    contentDimensions,
+    containerDimensions,
+    savedRotation,
+    clampTranslation,
+    setTransform,
+    minScale,
+    maxScale,
+  ])
+
+  /**
+   * Zoom out one step around a point (two-finger tap).
+   * With double tap steps, goes to the previous step.
+   */
+  const zoomOutByStep = useCallback((focalX: number, focalY: number): void => {
+    'worklet'
+    const currentScale = savedScale.value
+    let targetScale = currentScale / Math.max(1, twoFingerTapZoomOutFactor)
+
+    if (zoomSteps)
+      targetScale = getPreviousZoomStep(zoomSteps, currentScale, minScale)
+
+    if (targetScale <= minScale + 0.01)
+      zoomOut()
+    else
+      zoomToPoint(targetScale, focalX, focalY)
+  }, [savedScale, twoFingerTapZoomOutFactor, zoomSteps, zoomOut, zoomToPoint, minScale])
+
+  /**
+   * Zoom around the container center by a factor (keyboard and screen reader steps)
+   */
+  const zoomByFactor = useCallback((factor: number): void => {
+    'worklet'
+    const targetScale = savedScale.value * factor
+
+    if (targetScale <= minScale + 0.01)
+      zoomOut()
+    else
+      zoomTo(targetScale)
+  }, [savedScale, zoomOut, zoomTo, minScale])
+
   /**
    * Handle double tap
    */
   const onDoubleTap = useCallback((x: number, y: number): void => {
     'worklet'
+    if (zoomSteps) {
+      const targetScale = getNextZoomStep(zoomSteps, savedScale.value, minScale, stepBehavior)
+      if (targetScale <= minScale + 0.01)
+        zoomOut()
+      else
+        zoomToPoint(targetScale, x, y)
+      return
+    }
+
     if (isZoomedIn.value)
       zoomOut()
 
     else
       zoomIn(x, y)
-  }, [isZoomedIn, zoomIn, zoomOut])
+  }, [isZoomedIn, zoomIn, zoomOut, zoomSteps, stepBehavior, savedScale, zoomToPoint, minScale])
 
   // ============== LAYOUT HANDLERS ==============
 
+  /**
+   * Apply initialScale/initialTranslate/initialFocalPoint against measured bounds
+   */
+  const applyInitialTransform = useCallback((): void => {
+    'worklet'
+    if (initialFocalPoint) {
+      centerOn(initialFocalPoint.x, initialFocalPoint.y, { animated: false })
+      return
+    }
+
+    const clamped = clampTranslation(startTranslateX, startTranslateY, startScale)
+    setTransform(startScale, clamped.x, clamped.y, false)
+  }, [
+    initialFocalPoint,
+    startScale,
+    startTranslateX,
+    startTranslateY,
+    centerOn,
+    clampTranslation,
+    setTransform,
+  ])
+
+  // Runs on UI after the dimension writes queued by the layout handlers
+  const applyInitialTransformAfterLayout = useCallback((): void => {
+    if (!hasInitialTransform || isInitialTransformApplied.current)
+      return
+    if (!hasContainerLayout.current || !hasContentLayout.current)
+      return
+
+    isInitialTransformApplied.current = true
+    runOnUI(applyInitialTransform)()
+  }, [hasInitialTransform, applyInitialTransform])
+
   const onLayout = useCallback(
     ({ nativeEvent: { layout: { width, height } } }: LayoutChangeEvent): void => {
       containerDimensions.value = { width, height }
+      hasContainerLayout.current = true
+      applyInitialTransformAfterLayout()
     },
-    [containerDimensions]
+    [containerDimensions, applyInitialTransformAfterLayout]
   )
 
   const onLayoutContent = useCallback(
     ({ nativeEvent: { layout: { width, height } } }: LayoutChangeEvent): void => {
       contentDimensions.value = { width, height }
+      hasContentLayout.current = true
+      applyInitialTransformAfterLayout()
     },
-    [contentDimensions]
+    [contentDimensions, applyInitialTransformAfterLayout]
   )
 
+  // ============== WHEEL HANDLER ==============
+
+  const wheelZoomStep = wheelConfig?.zoomStep ?? WHEEL_ZOOM_STEP
+  const wheelSensitivity = wheelConfig?.sensitivity ?? WHEEL_ZOOM_SENSITIVITY
+
+  const onWheel = useCallback((event: ZoomWheelEvent): boolean => {
+    const lineMultiplier = event.deltaMode === WHEEL_DELTA_MODE_LINE ? WHEEL_LINE_HEIGHT : 1
+    const deltaX = event.deltaX * lineMultiplier
+    const deltaY = event.deltaY * lineMultiplier
+
+    if (!enabled)
+      return false
+
+    // Browsers report trackpad pinch as ctrl+wheel
+    if (event.ctrlKey || event.metaKey) {
+      if (!pinchEnabled)
+        return false
+
+      if (deltaY === 0)
+        return true
+
+      // Mouse wheel notches zoom by a fixed step, trackpad pinch continuously
+      const factor = Math.abs(deltaY) >= WHEEL_NOTCH_DELTA
+        ? (deltaY < 0 ? wheelZoomStep : 1 / wheelZoomStep)
+        : Math.exp(-deltaY * wheelSensitivity)
+      const targetScale = clamp(scale.value * factor, minScale, maxScale)
+
+      // Same focal math as pinch: the point under the cursor stays in place
+      zoomToPoint(targetScale, event.x, event.y, false)
+      return true
+    }
+
+    // Plain wheel pans only when zoomed, otherwise let the page scroll
+    if (!panEnabled || !isZoomedIn.value)
+      return false
+
+    panBy(-deltaX, -deltaY, { animated: false })
+    return true
+  }, [
+    scale,
+    isZoomedIn,
+    zoomToPoint,
+    panBy,
+    wheelZoomStep,
+    wheelSensitivity,
+    minScale,
+    maxScale,
+    enabled,
+    pinchEnabled,
+    panEnabled,
+  ])
+
+  // ============== KEYBOARD HANDLER ==============
+
+  const keyboardConfig = typeof keyboardControls === 'object' ? keyboardControls : undefined
+  const keyboardZoomStep = keyboardConfig?.zoomStep ?? KEYBOARD_ZOOM_STEP
+  const keyboardPanStep = keyboardConfig?.panStep ?? KEYBOARD_PAN_STEP
+  const keyBindings = useMemo(() => ({
+    zoomIn: keyboardConfig?.zoomInKeys ?? ['+', '='],
+    zoomOut: keyboardConfig?.zoomOutKeys ?? ['-', '_'],
+    reset: keyboardConfig?.resetKeys ?? ['0'],
+    panLeft: keyboardConfig?.panLeftKeys ?? ['ArrowLeft'],
+    panRight: keyboardConfig?.panRightKeys ?? ['ArrowRight'],
+    panUp: keyboardConfig?.panUpKeys ?? ['ArrowUp'],
+    panDown: keyboardConfig?.panDownKeys ?? ['ArrowDown'],
+  }), [keyboardConfig])
+
+  const handleKeyPress = useCallback((key: string): boolean => {
+    if (!keyboardControls || !enabled)
+      return false
+
+    if (keyBindings.zoomIn.includes(key)) {
+      zoomByFactor(keyboardZoomStep)
+      return true
+    }
+
+    if (keyBindings.zoomOut.includes(key)) {
+      zoomByFactor(1 / keyboardZoomStep)
+      return true
+    }
+
+    if (keyBindings.reset.includes(key)) {
+      reset()
+      return true
+    }
+
+    // Arrow keys pan only when zoomed, otherwise leave them to the page/gallery.
+    // Panning right reveals content on the right, so the content moves left.
+    if (!isZoomedIn.value)
+      return false
+
+    if (keyBindings.panLeft.includes(key))
+      panBy(keyboardPanStep, 0)
+    else if (keyBindings.panRight.includes(key))
+      panBy(-keyboardPanStep, 0)
+    else if (keyBindings.panUp.includes(key))
+      panBy(0, keyboardPanStep)
+    else if (keyBindings.panDown.includes(key))
+      panBy(0, -keyboardPanStep)
+    else
+      return false
+
+    return true
+  }, [
+    keyboardControls,
+    enabled,
+    keyBindings,
+    keyboardZoomStep,
+    keyboardPanStep,
+    isZoomedIn,
+    zoomByFactor,
+    reset,
+    panBy,
+  ])
+
+  // ============== ACCESSIBILITY HANDLER ==============
+
+  const accessibilityZoomStep = accessibilityConfig?.zoomStep ?? ACCESSIBILITY_ZOOM_STEP
+  const accessibilityPanFraction = accessibilityConfig?.panFraction ?? ACCESSIBILITY_PAN_FRACTION
+
+  const handleAccessibilityAction = useCallback((actionName: string): boolean => {
+    if (!enabled)
+      return false
+
+    const container = containerDimensions.value
+    const panX = container.width * accessibilityPanFraction
+    const panY = container.height * accessibilityPanFraction
+
+    switch (actionName) {
+      case 'increment':
+      case 'zoomIn':
+        zoomByFactor(accessibilityZoomStep)
+        return true
+      case 'decrement':
+      case 'zoomOut':
+        zoomByFactor(1 / accessibilityZoomStep)
+        return true
+      case 'reset':
+        zoomOut()
+        return true
+      // Two-finger double tap toggles zoom like a double tap at the center
+      case 'magicTap':
+        onDoubleTap(container.width / 2, container.height / 2)
+        return true
+      // Panning left reveals content on the left, so the content moves right
+      case 'panLeft':
+        panBy(panX, 0)
+        return true
+      case 'panRight':
+        panBy(-panX, 0)
+        return true
+      case 'panUp':
+        panBy(0, panY)
+        return true
+      case 'panDown':
+        panBy(0, -panY)
+        return true
+      default:
+        return false
+    }
+  }, [
+    enabled,
+    containerDimensions,
+    accessibilityZoomStep,
+    accessibilityPanFraction,
+    zoomByFactor,
+    zoomOut,
+    onDoubleTap,
+    panBy,
+  ])
+
   // ============== GESTURE HANDLERS ==============
 
   const updateZoomGestureLastTime = useCallback((): void => {
@@ -491,47 +1811,106 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
     zoomGestureLastTime.value = Date.now()
   }, [zoomGestureLastTime])
 
-  // Callback for scrolling parent from worklet
-  // Compatible with FlatList/ScrollView from react-native, react-native-gesture-handler,
-  // and react-native-reanimated (Animated.FlatList/ScrollView)
-  const scrollParent = useCallback((offset: number, animated: boolean = false): void => {
-    if (!parentScrollRef?.current)
+  // Parent pager: custom adapter, or FlatList/ScrollView/PagerView behind parentScrollRef
+  const pager = useMemo(
+    () => pagerAdapter ?? (parentScrollRef ? createScrollableAdapter(parentScrollRef, gallerySwipeDirection) : null),
+    [pagerAdapter, parentScrollRef, gallerySwipeDirection]
+  )
+  const pagerSetOffset = pager?.setOffset
+  const pagerSnapToPage = pager?.snapToPage
+  const isPagerWorklet = pager?.isWorklet ?? false
+
+  // Move the parent pager from a worklet, on the UI thread when the adapter allows it
+  const setParentOffset = useCallback((offset: number): void => {
+    'worklet'
+    if (!pagerSetOffset)
       return
 
-    const ref = parentScrollRef.current
-
-    // Duck-typing to support all FlatList/ScrollView implementations
-    if (ref.scrollToOffset)
-      ref.scrollToOffset({ offset, animated })
-    else if (ref.scrollTo)
-      ref.scrollTo({ x: offset, animated })
-  }, [parentScrollRef])
-
-  // Delayed zoom reset after snap animation completes
-  const resetZoomDelayed = useCallback((delay: number = 300): void => {
-    setTimeout(() => {
-      scale.value = withSpring(minScale, SPRING_CONFIG)
-      translateX.value = withSpring(0, SPRING_CONFIG)
-      translateY.value = withSpring(0, SPRING_CONFIG)
-      savedScale.value = minScale
-      savedTranslateX.value = 0
-      savedTranslateY.value = 0
-      isZoomedIn.value = false
-    }, delay)
-  }, [
-    scale,
-    translateX,
-    translateY,
-    savedScale,
-    savedTranslateX,
-    savedTranslateY,
-    isZoomedIn,
-    minScale,
-  ])
+    if (isPagerWorklet)
+      pagerSetOffset(offset)
+    else
+      runOnJS(pagerSetOffset)(offset)
+  }, [pagerSetOffset, isPagerWorklet])
+
+  const snapParentToPage = useCallback((index: number, offset: number): void => {
+    'worklet'
+    if (!pagerSnapToPage)
+      return
+
+    if (isPagerWorklet)
+      pagerSnapToPage(index, offset)
+    else
+      runOnJS(pagerSnapToPage)(index, offset)
+  }, [pagerSnapToPage, isPagerWorklet])
+
+  /**
+   * Parent scroll settled: the outgoing page is off-screen now, reset it without animation
+   */
+  const notifyPageSettled = useCallback((): void => {
+    if (pageSettleFallbackTimer.current) {
+      clearTimeout(pageSettleFallbackTimer.current)
+      pageSettleFallbackTimer.current = null
+    }
+
+    if (!hasPendingPageReset.current)
+      return
+
+    hasPendingPageReset.current = false
+    reset(false)
+  }, [reset])
+
+  /**
+   * No settle signal arrived in time: the page may still be on screen, so animate the reset
+   */
+  const resetAfterPageSettleFallback = useCallback((): void => {
+    pageSettleFallbackTimer.current = null
+    if (!hasPendingPageReset.current)
+      return
+
+    hasPendingPageReset.current = false
+    reset()
+  }, [reset])
+
+  const waitsForPageSettle = resetOnPageSettle || activeIndex !== undefined
+
+  /**
+   * Gallery swipe is leaving this page for a neighbour.
+   * Unless the parent reports settling (activeIndex or resetOnPageSettle), the page
+   * resets after a fixed delay, or earlier if notifyPageSettled comes first.
+   */
+  const requestPageChange = useCallback((nextIndex: number, direction: PageChangeDirection): void => {
+    onRequestPageChange?.(nextIndex, direction)
+    onPageSnap?.(nextIndex)
+
+    hasPendingPageReset.current = true
+    if (!waitsForPageSettle) {
+      if (pageSettleFallbackTimer.current)
+        clearTimeout(pageSettleFallbackTimer.current)
+      pageSettleFallbackTimer.current = setTimeout(resetAfterPageSettleFallback, PAGE_SETTLE_FALLBACK_MS)
+    }
+  }, [onRequestPageChange, onPageSnap, waitsForPageSettle, resetAfterPageSettleFallback])
+
+  useEffect(() => () => {
+    if (pageSettleFallbackTimer.current)
+      clearTimeout(pageSettleFallbackTimer.current)
+  }, [])
+
+  // The parent settled on another page, so this one is off-screen
+  useEffect(() => {
+    if (activeIndex === undefined || activeIndex === currentIndex)
+      return
+
+    // Also covers pages zoomed before the parent scrolled away on its own
+    if (isZoomedIn.value)
+      hasPendingPageReset.current = true
+    notifyPageSettled()
+  }, [activeIndex, currentIndex, isZoomedIn, notifyPageSettled])
 
   const zoomGesture = useMemo(() => {
     // ========== DOUBLE TAP ==========
+    const isDoubleTapEnabled = enabled && doubleTapEnabled
     const tapGesture = Gesture.Tap()
+      .enabled(isDoubleTapEnabled)
       .numberOfTaps(2)
       .maxDeltaX(TAP_MAX_DELTA)
       .maxDeltaY(TAP_MAX_DELTA)
@@ -545,6 +1924,7 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
     // Apple Photos: 1 finger when zoomed in, 2 fingers when at 1x
     // With enableGallerySwipe + parentScrollRef: seamless edge scrolling
     const panGesture = Gesture.Pan()
+      .enabled(enabled && panEnabled)
       .manualActivation(true)
       .onTouchesDown((e: GestureTouchEvent) => {
         'worklet'
@@ -553,12 +1933,15 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
           const bounds = getTranslateBounds(scale.value)
           const edgeThreshold = 2
 
-          // Check current edge state
-          // At left edge: translateX is at maxX (content shifted right, showing left of image)
-          // At right edge: translateX is at -maxX (content shifted left, showing right of image)
-          isAtLeftEdge.value = translateX.value >= bounds.maxX - edgeThreshold
-          isAtRightEdge.value = translateX.value <= -bounds.maxX + edgeThreshold
+          // Check current edge state along the gallery axis
+          // At start edge: translate is at max (content shifted right/down, showing left/top of image)
+          // At end edge: translate is at -max (content shifted left/up, showing right/bottom of image)
+          const axisTranslate = isVerticalGallery ? translateY.value : translateX.value
+          const axisMax = isVerticalGallery ? bounds.maxY : bounds.maxX
+          isAtStartEdge.value = axisTranslate >= axisMax - edgeThreshold
+          isAtEndEdge.value = axisTranslate <= -axisMax + edgeThreshold
           panStartX.value = e.allTouches[0].x
+          panStartY.value = e.allTouches[0].y
         }
       })
       .onTouchesMove((e: GestureTouchEvent, state) => {
@@ -567,6 +1950,12 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
           return // Already activated
 
         if (([State.UNDETERMINED, State.BEGAN] as State[]).includes(e.state)) {
+          // Second touch of a double-tap belongs to quick zoom
+          if (isQuickZoomCandidate.value) {
+            state.fail()
+            return
+          }
+
           const zoomed = scale.value > minScale + 0.01 // Small threshold to avoid float issues
 
           // 2 finger pan always works (for pinch-pan combo)
@@ -575,6 +1964,26 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
             return
           }
 
+          // Not zoomed: a mostly vertical drag down is a dismiss swipe
+          if (!zoomed && enableSwipeToDismiss && e.numberOfTouches === 1) {
+            const touch = e.allTouches[0]
+            const deltaX = touch.x - panStartX.value
+            const deltaY = touch.y - panStartY.value
+
+            // Wait for sufficient movement before deciding
+            if (Math.abs(deltaX) < DISMISS_ACTIVATION_DISTANCE && Math.abs(deltaY) < DISMISS_ACTIVATION_DISTANCE)
+              return
+
+            if (deltaY > 0 && deltaY > Math.abs(deltaX)) {
+              isDismissing.value = true
+              state.activate()
+            }
+            else {
+              state.fail() // Horizontal or upward - let parent handle
+            }
+            return
+          }
+
           // Not zoomed - don't activate (let parent handle)
           if (!zoomed) {
             state.fail()
@@ -591,29 +2000,29 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
           // Legacy mode: check for edge swipe
           if (enableGallerySwipe && e.numberOfTouches === 1) {
             const touch = e.allTouches[0]
-            const deltaX = touch.x - panStartX.value
+            const delta = isVerticalGallery ? touch.y - panStartY.value : touch.x - panStartX.value
             const bounds = getTranslateBounds(scale.value)
-            const absDeltaX = Math.abs(deltaX)
+            const absDelta = Math.abs(delta)
 
-            // If no horizontal panning is possible, let parent handle
-            if (bounds.maxX === 0) {
+            // If no panning along the gallery axis is possible, let parent handle
+            if ((isVerticalGallery ? bounds.maxY : bounds.maxX) === 0) {
               state.fail()
               return
             }
 
             // Wait for sufficient movement before deciding
             const decisionThreshold = 5
-            if (absDeltaX < decisionThreshold)
+            if (absDelta < decisionThreshold)
               return // Not enough movement yet, don't decide
 
             // Check if swiping beyond edge
-            // At left edge and swiping right -> let parent handle (go to prev image)
-            // At right edge and swiping left -> let parent handle (go to next image)
-            if (isAtLeftEdge.value && deltaX > 0) {
+            // At start edge and swiping right/down -> let parent handle (prev image, next in RTL/inverted)
+            // At end edge and swiping left/up -> let parent handle (next image, prev in RTL/inverted)
+            if (isAtStartEdge.value && delta > 0) {
               state.fail()
               return
             }
-            if (isAtRightEdge.value && deltaX < 0) {
+            if (isAtEndEdge.value && delta < 0) {
               state.fail()
               return
             }
@@ -627,6 +2036,11 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
         'worklet'
         updateZoomGestureLastTime()
         isPanning.value = true
+
+        if (isDismissing.value)
+          return
+
+        claimSync()
         accumulatedOverflow.value = 0 // Reset overflow tracking
         // Save current position
         savedTranslateX.value = translateX.value
@@ -635,93 +2049,123 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
       .onUpdate((event: GestureUpdateEvent<PanGestureHandlerEventPayload>) => {
         'worklet'
 
+        // Dismiss drag: content follows the finger, shrinking as it moves down
+        if (isDismissing.value) {
+          const dragY = Math.max(0, event.translationY)
+          const progress = clamp(dragY / Math.max(1, containerDimensions.value.height / 2), 0, 1)
+          dismissTranslateX.value = event.translationX
+          dismissTranslateY.value = dragY
+          dismissScale.value = 1 - progress * DISMISS_SCALE_REDUCTION
+          dismissProgress.value = progress
+          return
+        }
+
         const bounds = getTranslateBounds(scale.value)
 
         // Calculate new translation
-        let newTx = savedTranslateX.value + event.translationX
+        const newTx = savedTranslateX.value + event.translationX
         const newTy = savedTranslateY.value + event.translationY
 
         // Apple Photos seamless scrolling with parentScrollRef
         if (enableGallerySwipe && hasParentScroll) {
-          // Calculate overflow (how much we're trying to go past the edge)
-          let overflow = 0
+          // Calculate overflow along the gallery axis (how much we're trying to go past the edge)
+          // Positive: past the start edge (swiping right/down), negative: past the end edge
+          const axisTranslate = isVerticalGallery ? newTy : newTx
+          const axisMax = isVerticalGallery ? bounds.maxY : bounds.maxX
+          const clampedAxisTranslate = clamp(axisTranslate, -axisMax, axisMax)
+          const overflow = axisTranslate - clampedAxisTranslate
 
-          if (newTx > bounds.maxX) {
-            // Trying to go past left edge (swiping right)
-            overflow = newTx - bounds.maxX
-            newTx = bounds.maxX
-          }
-          else if (newTx < -bounds.maxX) {
-            // Trying to go past right edge (swiping left)
-            overflow = newTx + bounds.maxX // negative value
-            newTx = -bounds.maxX
-          }
+          // No neighbour in that direction (first/last item): rubber-band below instead
+          const logicalOverflow = overflow * galleryDirectionSign
+          const hasNeighbour = logicalOverflow < 0 ? galleryOffsets.hasNext : galleryOffsets.hasPrev
 
           // If there's overflow, scroll the parent FlatList
-          if (overflow !== 0) {
+          if (overflow !== 0 && hasNeighbour) {
             accumulatedOverflow.value = overflow
-            const targetOffset = currentIndex * itemWidth - overflow
+            const targetOffset = clamp(
+              galleryOffsets.current - logicalOverflow,
+              galleryOffsets.prev,
+              galleryOffsets.next
+            )
 
             // Scroll parent without animation for smooth tracking
-            runOnJS(scrollParent)(targetOffset, false)
+            setParentOffset(targetOffset)
 
-            // Lock vertical movement while scrolling parent
-            translateX.value = newTx
+            // Lock cross-axis movement while scrolling parent
+            if (isVerticalGallery)
+              translateY.value = clampedAxisTranslate
+            else
+              translateX.value = clampedAxisTranslate
             return
           }
           else {
             accumulatedOverflow.value = 0
           }
         }
-        else {
-          // Regular rubber band effect
-          const rubber = applyRubberBandTranslation(newTx, newTy, scale.value)
-          newTx = rubber.x
-        }
 
-        const rubberY = applyRubberBandTranslation(newTx, newTy, scale.value)
-        translateX.value = newTx
-        translateY.value = rubberY.y
+        // Regular rubber band effect
+        const rubber = applyRubberBandTranslation(newTx, newTy, scale.value)
+        translateX.value = rubber.x
+        translateY.value = rubber.y
       })
       .onEnd((event: GestureStateChangeEvent<PanGestureHandlerEventPayload>) => {
         'worklet'
         updateZoomGestureLastTime()
         isPanning.value = false
 
+        if (isDismissing.value) {
+          isDismissing.value = false
+
+          const shouldDismiss = event.translationY > dismissDistanceThreshold
+            || event.velocityY > dismissVelocityThreshold
+          if (shouldDismiss) {
+            if (onDismiss)
+              runOnJS(onDismiss)()
+            return
+          }
+
+          // Not far or fast enough - spring back
+          dismissTranslateX.value = withSpring(0, SPRING_CONFIG)
+          dismissTranslateY.value = withSpring(0, SPRING_CONFIG)
+          dismissScale.value = withSpring(1, SPRING_CONFIG)
+          dismissProgress.value = withSpring(0, SPRING_CONFIG)
+          return
+        }
+
+        // Two-finger tap already animates to its target
+        if (Date.now() - twoFingerTapTime.value < TWO_FINGER_TAP_SETTLE_MS)
+          return
+
         const currentScale = scale.value
         const bounds = getTranslateBounds(currentScale)
 
         // Handle snap for parent scroll (Apple Photos behavior)
         if (enableGallerySwipe && hasParentScroll && accumulatedOverflow.value !== 0) {
-          const overflow = accumulatedOverflow.value
-          const velocity = event.velocityX
-          const snapThreshold = itemWidth * 0.3 // 30% of item width
+          // Logical overflow/velocity: negative always points to the next item
+          const overflow = accumulatedOverflow.value * galleryDirectionSign
+          const velocity = (isVerticalGallery ? event.velocityY : event.velocityX) * galleryDirectionSign
+          const snapStep = getGallerySnapStep(galleryOffsets, overflow, velocity)
 
-          // Determine if we should snap to next/prev or back to current
-          // Snap to next/prev if: overflow > threshold OR high velocity in same direction
-          const shouldSnapToNext = overflow < -snapThreshold || (overflow < 0 && velocity < -500)
-          const shouldSnapToPrev = overflow > snapThreshold || (overflow > 0 && velocity > 500)
-
-          if (shouldSnapToNext) {
+          if (snapStep > 0) {
             // Snap to next image - scroll to next index
-            const nextOffset = (currentIndex + 1) * itemWidth
-            runOnJS(scrollParent)(nextOffset, true)
+            snapParentToPage(currentIndex + 1, galleryOffsets.next)
 
-            // Reset zoom after snap animation completes
-            runOnJS(resetZoomDelayed)(300)
+            // Reset zoom once the parent scroll settles
+            runOnJS(requestPageChange)(currentIndex + 1, 'next')
           }
-          else if (shouldSnapToPrev) {
+          else if (snapStep < 0) {
             // Snap to previous image - scroll to prev index
-            const prevOffset = (currentIndex - 1) * itemWidth
-            runOnJS(scrollParent)(prevOffset, true)
+            snapParentToPage(currentIndex - 1, galleryOffsets.prev)
 
-            // Reset zoom after snap animation completes
-            runOnJS(resetZoomDelayed)(300)
+            // Reset zoom once the parent scroll settles
+            runOnJS(requestPageChange)(currentIndex - 1, 'prev')
           }
           else {
             // Snap back to current image
-            const currentOffset = currentIndex * itemWidth
-            runOnJS(scrollParent)(currentOffset, true)
+            snapParentToPage(currentIndex, galleryOffsets.current)
+
+            if (onPageSnap)
+              runOnJS(onPageSnap)(currentIndex)
           }
 
           accumulatedOverflow.value = 0
@@ -736,30 +2180,36 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
 
         if (isOutOfBoundsX || isOutOfBoundsY) {
           // Spring back to bounds with gentle animation (fix for #51)
-          translateX.value = withSpring(
-            clamp(currentTx, -bounds.maxX, bounds.maxX),
-            SPRING_CONFIG
-          )
-          translateY.value = withSpring(
-            clamp(currentTy, -bounds.maxY, bounds.maxY),
-            SPRING_CONFIG
-          )
+          const targetTx = clamp(currentTx, -bounds.maxX, bounds.maxX)
+          const targetTy = clamp(currentTy, -bounds.maxY, bounds.maxY)
+          ownAnimationCount.value += 2
+          translateX.value = withSpring(targetTx, SPRING_CONFIG, endOwnAnimation)
+          translateY.value = withSpring(targetTy, SPRING_CONFIG, endOwnAnimation)
+          notifyTransformEnd(currentScale, targetTx, targetTy)
         }
         else {
           // Apply momentum with clamping (decay with rubber band)
+          ownAnimationCount.value += 2
           translateX.value = withDecay({
             velocity: event.velocityX,
             clamp: [-bounds.maxX, bounds.maxX],
             rubberBandEffect: true,
             rubberBandFactor: 0.6,
-          })
+          }, endOwnAnimation)
 
           translateY.value = withDecay({
             velocity: event.velocityY,
             clamp: [-bounds.maxY, bounds.maxY],
             rubberBandEffect: true,
             rubberBandFactor: 0.6,
-          })
+          }, endOwnAnimation)
+
+          // Report where momentum will come to rest
+          notifyTransformEnd(
+            currentScale,
+            clamp(getDecayRestPosition(currentTx, event.velocityX), -bounds.maxX, bounds.maxX),
+            clamp(getDecayRestPosition(currentTy, event.velocityY), -bounds.maxY, bounds.maxY)
+          )
         }
 
         // Update saved values
@@ -778,6 +2228,17 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
         'worklet'
         isPanning.value = false
       })
+      .onFinalize(() => {
+        'worklet'
+        // Cancelled or failed after the dismiss decision - onEnd didn't handle it
+        if (isDismissing.value) {
+          isDismissing.value = false
+          dismissTranslateX.value = withSpring(0, SPRING_CONFIG)
+          dismissTranslateY.value = withSpring(0, SPRING_CONFIG)
+          dismissScale.value = withSpring(1, SPRING_CONFIG)
+          dismissProgress.value = withSpring(0, SPRING_CONFIG)
+        }
+      })
       .minDistance(0)
       .minPointers(1)
       .maxPointers(2)
@@ -785,6 +2246,7 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
     // ========== PINCH GESTURE ==========
     // Apple Photos: dynamic focal point tracking during pinch
     const pinchGesture = Gesture.Pinch()
+      .enabled(enabled && pinchEnabled)
       .onTouchesDown((e: GestureTouchEvent, state) => {
         'worklet'
         // Immediately activate pinch when 2 fingers touch
@@ -795,6 +2257,7 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
       .onStart((event: GestureUpdateEvent<PinchGestureHandlerEventPayload>) => {
         'worklet'
         updateZoomGestureLastTime()
+        claimSync()
         isPinching.value = true
 
         // Save current state
@@ -808,26 +2271,16 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
       })
       .onUpdate((event: GestureUpdateEvent<PinchGestureHandlerEventPayload>) => {
         'worklet'
+        // A second finger during swipe to dismiss must not zoom
+        if (isDismissing.value)
+          return
 
         const container = containerDimensions.value
         const centerX = container.width / 2
         const centerY = container.height / 2
 
         // New scale with rubber band limits
-        let newScale = savedScale.value * event.scale
-        // Apply rubber band to scale
-        if (newScale < minScale) {
-          // Rubber band for zoom out below minScale
-          const overZoom = minScale - newScale
-          newScale = minScale - overZoom * RUBBER_BAND_FACTOR
-          newScale = Math.max(newScale, minScale * MIN_OVER_SCALE)
-        }
-        else if (newScale > maxScale) {
-          // Rubber band for zoom in above max
-          const overZoom = newScale - maxScale
-          newScale = maxScale + overZoom * RUBBER_BAND_FACTOR
-          newScale = Math.min(newScale, maxScale * 1.5)
-        }
+        const newScale = applyRubberBandScale(savedScale.value * event.scale)
 
         // Dynamic focal point - Apple Photos updates focal point during gesture
         // This makes the gesture feel more natural when fingers move
@@ -840,40 +2293,297 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
         const effectiveFocalX = pinchFocalX.value + (currentFocalX - pinchFocalX.value) * focalBlend
         const effectiveFocalY = pinchFocalY.value + (currentFocalY - pinchFocalY.value) * focalBlend
 
-        // Focal point offset from container center
-        const focalOffsetX = effectiveFocalX - centerX
-        const focalOffsetY = effectiveFocalY - centerY
+        // Focal point offset from container center
+        const focalOffsetX = effectiveFocalX - centerX
+        const focalOffsetY = effectiveFocalY - centerY
+
+        // Apple Photos focal point algorithm
+        const scaleRatio = newScale / savedScale.value
+        const newTx = focalOffsetX * (1 - scaleRatio) + savedTranslateX.value * scaleRatio
+        const newTy = focalOffsetY * (1 - scaleRatio) + savedTranslateY.value * scaleRatio
+
+        // Apply directly (rubber band already applied to scale)
+        scale.value = newScale
+        translateX.value = newTx
+        translateY.value = newTy
+
+        // Pinch-to-close progress: 0 at minScale, 1 at the dismiss threshold
+        if (onPinchDismiss)
+          dismissProgress.value = getPinchDismissProgress(newScale, minScale, pinchDismissScale)
+      })
+      .onEnd(() => {
+        'worklet'
+        updateZoomGestureLastTime()
+        isPinching.value = false
+
+        // Two-finger tap already animates to its target, swipe to dismiss owns the overlay
+        if (Date.now() - twoFingerTapTime.value < TWO_FINGER_TAP_SETTLE_MS || isDismissing.value)
+          return
+
+        // Pinch-to-close: released far enough below minScale
+        if (onPinchDismiss && scale.value <= pinchDismissScale) {
+          // Commit minScale and keep the pinched look in the dismiss overlay,
+          // so the transform stays valid and reset() restores the content
+          const currentScale = scale.value
+          dismissTranslateX.value = translateX.value
+          dismissTranslateY.value = translateY.value
+          dismissScale.value = currentScale / minScale
+          setTransform(minScale, 0, 0, false)
+
+          if (!shouldAnimatePinchDismiss) {
+            dismissProgress.value = 1
+            runOnJS(onPinchDismiss)()
+            return
+          }
+
+          dismissProgress.value = withAnimation(1)
+          dismissOpacity.value = withAnimation(0)
+          dismissScale.value = withAnimation(0, undefined, (finished) => {
+            'worklet'
+            if (finished)
+              runOnJS(onPinchDismiss)()
+          })
+          return
+        }
+
+        if (onPinchDismiss)
+          dismissProgress.value = withSpring(0, SPRING_CONFIG)
+
+        // Check previous zoom state before applying constraints
+        const wasZoomed = isZoomedIn.value
+
+        // Apply boundary constraints with spring animation
+        applyBoundaryConstraints(scale.value, true)
+
+        // Update isZoomedIn state
+        const finalScale = clamp(scale.value, minScale, maxScale)
+        const isNowZoomed = finalScale > minScale
+        if (wasZoomed !== isNowZoomed)
+          isZoomedIn.value = isNowZoomed
+      })
+
+    // ========== QUICK ZOOM ==========
+    // Double-tap and hold, then drag vertically to zoom around the tap point.
+    // Fails on release without dragging so the double tap can still fire.
+    const quickZoomGesture = Gesture.Pan()
+      .enabled(isDoubleTapEnabled)
+      .manualActivation(true)
+      .onTouchesDown((e: GestureTouchEvent, state) => {
+        'worklet'
+        if (e.numberOfTouches !== 1) {
+          isQuickZoomCandidate.value = false
+          state.fail()
+          return
+        }
+
+        const touch = e.allTouches[0]
+        const now = Date.now()
+        const isSecondTap = now - quickZoomLastTapTime.value < QUICK_ZOOM_TAP_INTERVAL
+          && Math.abs(touch.x - quickZoomLastTapX.value) < TAP_MAX_DELTA
+          && Math.abs(touch.y - quickZoomLastTapY.value) < TAP_MAX_DELTA
+
+        isQuickZoomCandidate.value = isSecondTap
+        if (isSecondTap) {
+          quickZoomFocalX.value = touch.x
+          quickZoomFocalY.value = touch.y
+        }
+        else {
+          quickZoomLastTapTime.value = now
+          quickZoomLastTapX.value = touch.x
+          quickZoomLastTapY.value = touch.y
+        }
+      })
+      .onTouchesMove((e: GestureTouchEvent, state) => {
+        'worklet'
+        if (e.state === State.ACTIVE)
+          return
+
+        if (!isQuickZoomCandidate.value || e.numberOfTouches !== 1) {
+          isQuickZoomCandidate.value = false
+          state.fail()
+          return
+        }
+
+        const deltaY = e.allTouches[0].y - quickZoomFocalY.value
+        if (Math.abs(deltaY) >= QUICK_ZOOM_ACTIVATION_DISTANCE)
+          state.activate()
+      })
+      .onTouchesUp((e: GestureTouchEvent, state) => {
+        'worklet'
+        if (e.state === State.ACTIVE)
+          return
+
+        // Released without dragging - hand over to the regular double tap
+        if (isQuickZoomCandidate.value)
+          quickZoomLastTapTime.value = 0
+        isQuickZoomCandidate.value = false
+        state.fail()
+      })
+      .onStart(() => {
+        'worklet'
+        updateZoomGestureLastTime()
+        claimSync()
+        isQuickZooming.value = true
+
+        savedScale.value = scale.value
+        savedTranslateX.value = translateX.value
+        savedTranslateY.value = translateY.value
+      })
+      .onUpdate((event: GestureUpdateEvent<PanGestureHandlerEventPayload>) => {
+        'worklet'
+        const container = containerDimensions.value
+
+        // Drag down zooms in, drag up zooms out
+        const newScale = applyRubberBandScale(
+          savedScale.value * Math.exp(event.translationY * QUICK_ZOOM_SENSITIVITY)
+        )
+
+        // Keep the tap point stationary (same focal math as pinch)
+        const focalOffsetX = quickZoomFocalX.value - container.width / 2
+        const focalOffsetY = quickZoomFocalY.value - container.height / 2
+        const scaleRatio = newScale / savedScale.value
+
+        scale.value = newScale
+        translateX.value = focalOffsetX * (1 - scaleRatio) + savedTranslateX.value * scaleRatio
+        translateY.value = focalOffsetY * (1 - scaleRatio) + savedTranslateY.value * scaleRatio
+      })
+      .onEnd(() => {
+        'worklet'
+        updateZoomGestureLastTime()
+        isQuickZooming.value = false
+        applyBoundaryConstraints(scale.value, true)
+      })
+      .onFinalize(() => {
+        'worklet'
+        isQuickZoomCandidate.value = false
+        isQuickZooming.value = false
+      })
+      .minPointers(1)
+      .maxPointers(1)
+
+    // ========== SINGLE TAP ==========
+    // Fires only after the double tap (and quick zoom) have failed
+    const singleTapGesture = Gesture.Tap()
+      .enabled(enabled)
+      .numberOfTaps(1)
+      .maxDeltaX(TAP_MAX_DELTA)
+      .maxDeltaY(TAP_MAX_DELTA)
+      .onEnd((event, success) => {
+        'worklet'
+        if (!success)
+          return
+
+        const pointEvent: ZoomPointEvent = {
+          screen: { x: event.x, y: event.y },
+          content: toContentPoint(event.x, event.y),
+        }
+        if (onSingleTapWorklet)
+          onSingleTapWorklet(pointEvent)
+        if (onSingleTap)
+          runOnJS(onSingleTap)(pointEvent)
+      })
+
+    // Earlier gestures have priority: quick zoom, then double tap, then single tap.
+    // A disabled double tap is left out so single taps don't wait for it.
+    const tapGestures = [
+      ...(enableQuickZoom ? [quickZoomGesture] : []),
+      ...(isDoubleTapEnabled ? [tapGesture] : []),
+      ...(onSingleTap || onSingleTapWorklet ? [singleTapGesture] : []),
+    ]
+    const doubleTapGesture = tapGestures.length > 1
+      ? Gesture.Exclusive(...tapGestures)
+      : tapGestures[0] ?? tapGesture
+
+    // ========== LONG PRESS ==========
+    // Fails on movement beyond TAP_MAX_DELTA, so pans and pinches cancel it
+    const longPressGesture = Gesture.LongPress()
+      .enabled(enabled)
+      .minDuration(longPressMinDuration)
+      .maxDistance(TAP_MAX_DELTA)
+      .onStart((event) => {
+        'worklet'
+        if (!onLongPress || isPinching.value || isPanning.value)
+          return
 
-        // Apple Photos focal point algorithm
-        const scaleRatio = newScale / savedScale.value
-        const newTx = focalOffsetX * (1 - scaleRatio) + savedTranslateX.value * scaleRatio
-        const newTy = focalOffsetY * (1 - scaleRatio) + savedTranslateY.value * scaleRatio
+        runOnJS(onLongPress)({
+          screen: { x: event.x, y: event.y },
+          content: toContentPoint(event.x, event.y),
+        })
+      })
 
-        // Apply directly (rubber band already applied to scale)
-        scale.value = newScale
-        translateX.value = newTx
-        translateY.value = newTy
+    // A press held past longPressMinDuration (shorter than the tap's 500ms maxDuration)
+    // must not also fire a single tap on release
+    if (onLongPress)
+      singleTapGesture.requireExternalGestureToFail(longPressGesture)
+
+    // ========== ROTATION ==========
+    // Rotates around the content center and snaps to the nearest 90° on release
+    const rotationGesture = Gesture.Rotation()
+      .enabled(enabled && pinchEnabled)
+      .onStart(() => {
+        'worklet'
+        updateZoomGestureLastTime()
+        claimSync()
+        isRotating.value = true
+        savedRotation.value = rotation.value
+      })
+      .onUpdate((event: GestureUpdateEvent<RotationGestureHandlerEventPayload>) => {
+        'worklet'
+        rotation.value = savedRotation.value + event.rotation * 180 / Math.PI
       })
       .onEnd(() => {
         'worklet'
         updateZoomGestureLastTime()
-        isPinching.value = false
-
-        // Check previous zoom state before applying constraints
-        const wasZoomed = isZoomedIn.value
+        const snappedRotation = Math.round(rotation.value / 90) * 90
+        rotation.value = withSpring(snappedRotation, SPRING_CONFIG)
+        savedRotation.value = snappedRotation
+        isRotating.value = false
+
+        // Bounds change with the rotated bounding box (pinch end applies them otherwise)
+        if (!isPinching.value)
+          applyBoundaryConstraints(scale.value, true)
+      })
+      .onFinalize(() => {
+        'worklet'
+        isRotating.value = false
+      })
 
-        // Apply boundary constraints with spring animation
-        applyBoundaryConstraints(scale.value, true)
+    // ========== TWO-FINGER TAP ==========
+    // Zooms out one step around the midpoint of the two touches
+    const twoFingerTapGesture = Gesture.Tap()
+      .enabled(enabled && pinchEnabled)
+      .minPointers(2)
+      .maxDeltaX(TAP_MAX_DELTA)
+      .maxDeltaY(TAP_MAX_DELTA)
+      .onTouchesDown((e: GestureTouchEvent) => {
+        'worklet'
+        if (e.numberOfTouches === 2) {
+          twoFingerTapFocalX.value = (e.allTouches[0].x + e.allTouches[1].x) / 2
+          twoFingerTapFocalY.value = (e.allTouches[0].y + e.allTouches[1].y) / 2
+        }
+      })
+      .onEnd((_event, success) => {
+        'worklet'
+        if (!success)
+          return
 
-        // Update isZoomedIn state
-        const finalScale = clamp(scale.value, minScale, maxScale)
-        const isNowZoomed = finalScale > minScale
-        if (wasZoomed !== isNowZoomed)
-          isZoomedIn.value = isNowZoomed
+        updateZoomGestureLastTime()
+        twoFingerTapTime.value = Date.now()
+        zoomOutByStep(twoFingerTapFocalX.value, twoFingerTapFocalY.value)
       })
 
-    return Gesture.Simultaneous(tapGesture, panGesture, pinchGesture)
+    return Gesture.Simultaneous(
+      doubleTapGesture,
+      panGesture,
+      pinchGesture,
+      ...(onLongPress ? [longPressGesture] : []),
+      ...(enableRotation ? [rotationGesture] : []),
+      ...(enableTwoFingerTap ? [twoFingerTapGesture] : [])
+    )
   }, [
+    isQuickZooming,
+    ownAnimationCount,
+    endOwnAnimation,
     updateZoomGestureLastTime,
     onDoubleTap,
     scale,
@@ -894,17 +2604,137 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
     maxScale,
     isZoomedIn,
     enableGallerySwipe,
-    isAtLeftEdge,
-    isAtRightEdge,
+    isAtStartEdge,
+    isAtEndEdge,
     panStartX,
     hasParentScroll,
-    currentIndex,
-    itemWidth,
-    scrollParent,
+    galleryOffsets,
+    isVerticalGallery,
+    galleryDirectionSign,
+    setParentOffset,
+    snapParentToPage,
     accumulatedOverflow,
-    resetZoomDelayed,
+    currentIndex,
+    requestPageChange,
+    onPageSnap,
+    claimSync,
+    notifyTransformEnd,
+    applyRubberBandScale,
+    enableQuickZoom,
+    quickZoomLastTapTime,
+    quickZoomLastTapX,
+    quickZoomLastTapY,
+    quickZoomFocalX,
+    quickZoomFocalY,
+    isQuickZoomCandidate,
+    toContentPoint,
+    onSingleTap,
+    onSingleTapWorklet,
+    onLongPress,
+    longPressMinDuration,
+    enableRotation,
+    rotation,
+    savedRotation,
+    isRotating,
+    enableTwoFingerTap,
+    twoFingerTapFocalX,
+    twoFingerTapFocalY,
+    twoFingerTapTime,
+    zoomOutByStep,
+    enableSwipeToDismiss,
+    onDismiss,
+    panStartY,
+    isDismissing,
+    dismissTranslateX,
+    dismissTranslateY,
+    dismissProgress,
+    dismissDistanceThreshold,
+    dismissVelocityThreshold,
+    dismissScale,
+    onPinchDismiss,
+    pinchDismissScale,
+    shouldAnimatePinchDismiss,
+    dismissOpacity,
+    setTransform,
+    withAnimation,
+    enabled,
+    pinchEnabled,
+    panEnabled,
+    doubleTapEnabled,
   ])
 
+  // ============== CONTROLLED MODE ==============
+  // The owner may write the SharedValues directly, so derive zoom state and the
+  // saved transform from the live values. Frames of our own animations and gestures
+  // are skipped - they already committed their targets to the saved values.
+  useAnimatedReaction(
+    () => ({
+      scale: scale.value,
+      translateX: translateX.value,
+      translateY: translateY.value,
+    }),
+    () => {
+      if (isControlled)
+        adoptLiveTransform()
+    },
+    [isControlled, adoptLiveTransform]
+  )
+
+  // ============== SYNC GROUP ==============
+  // Driver publishes its transform every frame
+  useAnimatedReaction(
+    () => ({
+      scale: scale.value,
+      translateX: translateX.value,
+      translateY: translateY.value,
+    }),
+    (current) => {
+      if (!syncGroup || syncGroup.driverId.value !== syncMemberId)
+        return
+
+      const viewport = transformToViewport(
+        current,
+        contentDimensions.value,
+        containerDimensions.value,
+        savedRotation.value
+      )
+      syncGroup.transform.value = {
+        ...current,
+        centerX: viewport.centerX,
+        centerY: viewport.centerY,
+        relativeScale: viewport.scale,
+      }
+    },
+    [syncGroup, syncMemberId]
+  )
+
+  // Followers mirror the published transform without publishing it back
+  useAnimatedReaction(
+    () => syncGroup?.transform.value ?? null,
+    (synced) => {
+      if (!synced || !syncGroup || syncGroup.driverId.value === syncMemberId)
+        return
+
+      const target = syncMode === 'absolute'
+        ? synced
+        : viewportToTransform(
+          { centerX: synced.centerX, centerY: synced.centerY, scale: synced.relativeScale },
+          contentDimensions.value,
+          containerDimensions.value,
+          savedRotation.value
+        )
+
+      scale.value = target.scale
+      translateX.value = target.translateX
+      translateY.value = target.translateY
+      savedScale.value = target.scale
+      savedTranslateX.value = target.translateX
+      savedTranslateY.value = target.translateY
+      isZoomedIn.value = target.scale > minScale
+    },
+    [syncGroup, syncMemberId, syncMode, minScale]
+  )
+
   // ============== ANIMATED STYLE ==============
   // Transform order: translate first, then scale
   // This means scale happens around the center of the View
@@ -915,10 +2745,12 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
   // - overflow: hidden on container clips any subpixel overflow
   const contentContainerAnimatedStyle = useAnimatedStyle(() => ({
     transform: [
-      { translateX: translateX.value },
-      { translateY: translateY.value },
-      { scale: scale.value },
+      { translateX: translateX.value + dismissTranslateX.value },
+      { translateY: translateY.value + dismissTranslateY.value },
+      { scale: scale.value * dismissScale.value },
+      { rotate: `${rotation.value}deg` },
     ],
+    opacity: dismissOpacity.value,
   }))
 
   return {
@@ -926,6 +2758,8 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
     contentContainerAnimatedStyle,
     onLayout,
     onLayoutContent,
+    onWheel,
+    handleAccessibilityAction,
     zoomOut: () => {
       'worklet'
       zoomOut()
@@ -933,6 +2767,19 @@ export function useZoomGesture(props: UseZoomGestureProps = {}): UseZoomGestureR
     isZoomedIn,
     zoomGestureLastTime,
     scale,
+    zoomTo,
+    reset,
+    panBy,
+    centerOn,
+    zoomToRect,
+    rotateBy,
+    getState,
+    getViewport,
+    setViewport,
+    handleKeyPress,
+    notifyPageSettled,
+    rotation,
+    dismissProgress,
   }
 }
 
@@ -988,6 +2835,195 @@ export interface ZoomProps {
    * Required when using parentScrollRef. Usually equals device width.
    */
   itemWidth?: number
+  /**
+   * Scroll axis of the parent list. 'vertical' hands top/bottom overflow to the
+   * parent (e.g. vertically paged feeds). Default is 'horizontal'.
+   */
+  gallerySwipeDirection?: GallerySwipeDirection
+  /**
+   * Height of each item in the parent list (for calculating scroll offset).
+   * Required when using parentScrollRef with gallerySwipeDirection 'vertical'.
+   */
+  itemHeight?: number
+  /**
+   * Whether the parent list is inverted (FlatList `inverted` prop), so the next item
+   * comes before the current one on screen. RTL layouts are detected automatically.
+   * Default is false.
+   */
+  inverted?: boolean
+  /**
+   * Scroll offset of an item in the parent list, for separators, headers or
+   * mixed-size items. Replaces `index * itemWidth` (or itemHeight) when provided.
+   */
+  getItemOffset?: (index: number) => number
+  /**
+   * Number of items in the parent list. Swiping past the last item rubber-bands
+   * instead of scrolling the parent.
+   */
+  itemCount?: number
+  /**
+   * Drives a custom parent pager instead of parentScrollRef, e.g. createSharedValuePagerAdapter
+   * for a Reanimated pager or your own adapter.
+   */
+  pagerAdapter?: PagerAdapter
+  /**
+   * Index of the page currently settled in the parent list. When it moves away from
+   * currentIndex, this page is off-screen and its zoom is reset. When set, a swiped-away
+   * page waits for this (or notifyPageSettled) instead of resetting after a fixed delay.
+   */
+  activeIndex?: number
+  /**
+   * A swiped-away page resets only when notifyPageSettled is called (e.g. from
+   * onMomentumScrollEnd), without the fixed-delay fallback. Implied by activeIndex.
+   * Default is false.
+   */
+  resetOnPageSettle?: boolean
+  /**
+   * Called on the JS thread when a gallery swipe snaps to a neighbouring page,
+   * as the parent list starts scrolling to it.
+   */
+  onRequestPageChange?: (nextIndex: number, direction: PageChangeDirection) => void
+  /**
+   * Called on the JS thread with the page a gallery swipe snaps to
+   * (the current index when snapping back).
+   */
+  onPageSnap?: (index: number) => void
+  /**
+   * Scale to start at. Clamped to minScale/maxScale. Default is minScale.
+   */
+  initialScale?: number
+  /**
+   * Translation (screen pixels from centered) to start at.
+   * Clamped to bounds once container and content are measured.
+   */
+  initialTranslate?: Offset
+  /**
+   * Point in content coordinates to center the container on at start.
+   * Takes precedence over initialTranslate.
+   */
+  initialFocalPoint?: Offset
+  /**
+   * Controlled mode: externally owned scale SharedValue.
+   */
+  scale?: SharedValue<number>
+  /**
+   * Controlled mode: externally owned X translation SharedValue.
+   */
+  translateX?: SharedValue<number>
+  /**
+   * Controlled mode: externally owned Y translation SharedValue.
+   */
+  translateY?: SharedValue<number>
+  /**
+   * Called with the target transform whenever a gesture or action settles.
+   */
+  onTransformEnd?: (state: ZoomState) => void
+  /**
+   * Sync group from useZoomSync. Pinch/pan in any member is mirrored in the others.
+   */
+  syncGroup?: ZoomSyncGroup
+  /**
+   * 'absolute' copies scale/translation, 'normalized' matches the normalized viewport.
+   * Default is 'normalized'.
+   */
+  syncMode?: ZoomSyncMode
+  /**
+   * Enable one-finger quick zoom (double-tap and hold, then drag vertically).
+   * Default is false.
+   */
+  enableQuickZoom?: boolean
+  /**
+   * Called after a single tap, once the double tap has failed.
+   * Receives the tap point in screen and unscaled content coordinates.
+   */
+  onSingleTap?: (event: ZoomPointEvent) => void
+  /**
+   * Worklet variant of onSingleTap, called on the UI thread.
+   */
+  onSingleTapWorklet?: (event: ZoomPointEvent) => void
+  /**
+   * Called when the user long-presses the content.
+   * Receives the press point in screen and unscaled content coordinates.
+   */
+  onLongPress?: (event: ZoomPointEvent) => void
+  /**
+   * Minimum press duration in ms before onLongPress fires. Default is 500.
+   */
+  longPressMinDuration?: number
+  /**
+   * Enable two-finger rotation. Rotation snaps to the nearest 90° on release.
+   * Default is false.
+   */
+  enableRotation?: boolean
+  /**
+   * Enable two-finger tap to zoom out one step. Default is false.
+   */
+  enableTwoFingerTap?: boolean
+  /**
+   * Factor the scale is divided by on a two-finger tap. Default is 2.
+   */
+  twoFingerTapZoomOutFactor?: number
+  /**
+   * Mouse wheel and trackpad zoom configuration (react-native-web).
+   * Plain wheel pans when zoomed, ctrl/meta+wheel zooms around the cursor.
+   */
+  wheelConfig?: WheelConfig
+  /**
+   * Enable keyboard controls: +/- zoom, 0 resets, arrow keys pan when zoomed.
+   * On web the container becomes focusable and listens to keydown. On iPad with
+   * a hardware keyboard, forward key presses to `handleKeyPress` on the ref.
+   * Pass a config object to change key bindings and step sizes. Default is false.
+   */
+  keyboardControls?: boolean | KeyboardControlsConfig
+  /**
+   * Screen reader support: the container is an adjustable element whose value is the
+   * zoom percentage, with zoom/reset/pan actions and zoom level announcements.
+   * Opt-in, as it groups the children into a single accessibility element.
+   */
+  accessibilityConfig?: ZoomAccessibilityConfig
+  /**
+   * Enable one-finger drag down at minScale to dismiss (full-screen viewers).
+   * Default is false.
+   */
+  enableSwipeToDismiss?: boolean
+  /**
+   * Called when a dismiss swipe passes the distance or velocity threshold.
+   */
+  onDismiss?: () => void
+  /**
+   * Distance and velocity thresholds for swipe-to-dismiss.
+   */
+  dismissConfig?: DismissConfig
+  /**
+   * SharedValue receiving the dismiss drag progress (0..1), e.g. to fade a backdrop.
+   */
+  dismissProgress?: SharedValue<number>
+  /**
+   * Enables pinch-to-close: called when a pinch is released below the
+   * pinchDismissConfig threshold instead of springing back to minScale.
+   */
+  onPinchDismiss?: () => void
+  /**
+   * Threshold and out animation for pinch-to-close.
+   */
+  pinchDismissConfig?: PinchDismissConfig
+  /**
+   * Enable all gestures and wheel/keyboard/screen reader input, e.g. disable while a
+   * crop overlay is active. Toggling keeps the current transform. Default is true.
+   */
+  enabled?: boolean
+  /**
+   * Enable the pinch gesture, rotation and two-finger tap. Default is true.
+   */
+  pinchEnabled?: boolean
+  /**
+   * Enable panning. Default is true.
+   */
+  panEnabled?: boolean
+  /**
+   * Enable double tap to zoom and quick zoom. Default is true.
+   */
+  doubleTapEnabled?: boolean
 
   animationFunction?: <T extends AnimatableValue>(
     toValue: T,
@@ -999,6 +3035,7 @@ export interface ZoomProps {
 /**
  * Zoom component that provides pinch, pan, and double-tap gestures for zooming content
  * Implements Apple Photos-style zoom behavior
+ * Accepts a ref exposing imperative controls (see ZoomRef)
  *
  * @example
  * ```tsx
@@ -1013,19 +3050,89 @@ export interface ZoomProps {
  * </Zoom>
  * ```
  */
-export default function Zoom(
-  props: PropsWithChildren<ZoomProps>
+const Zoom = forwardRef<ZoomRef, PropsWithChildren<ZoomProps>>(function Zoom(
+  props,
+  ref
 ): React.JSX.Element {
   const { style, contentContainerStyle, children, onZoomChange, onZoomStateChange, ...rest } = props
+  const { accessibilityConfig, minScale = 1, maxScale = MAX_SCALE } = rest
+  const isWebKeyboardEnabled = Platform.OS === 'web' && !!rest.keyboardControls
+  const isAccessibilityEnabled = !!accessibilityConfig && (accessibilityConfig.enabled ?? true)
+
+  const containerRef = useRef<View>(null)
+
+  // Zoom value is only tracked while a screen reader is running
+  const [isScreenReaderEnabled, setIsScreenReaderEnabled] = useState(false)
+  const [accessibilityScale, setAccessibilityScale] = useState(rest.initialScale ?? minScale)
+
+  useEffect(() => {
+    if (!isAccessibilityEnabled)
+      return
+
+    let isMounted = true
+    AccessibilityInfo.isScreenReaderEnabled()
+      .then((enabled) => {
+        if (isMounted)
+          setIsScreenReaderEnabled(enabled)
+      })
+      .catch(() => {})
+
+    const subscription = AccessibilityInfo.addEventListener('screenReaderChanged', setIsScreenReaderEnabled)
+    return () => {
+      isMounted = false
+      subscription.remove()
+    }
+  }, [isAccessibilityEnabled])
+
+  const isTrackingAccessibilityScale = isAccessibilityEnabled && isScreenReaderEnabled
 
   const {
     zoomGesture,
     onLayout,
     onLayoutContent,
+    onWheel,
     contentContainerAnimatedStyle,
     scale,
     isZoomedIn,
-  } = useZoomGesture({ ...rest })
+    zoomTo,
+    reset,
+    panBy,
+    centerOn,
+    zoomToRect,
+    rotateBy,
+    getState,
+    getViewport,
+    setViewport,
+    handleKeyPress,
+    notifyPageSettled,
+    handleAccessibilityAction,
+  } = useZoomGesture(rest)
+
+  useImperativeHandle(ref, () => ({
+    zoomTo,
+    reset,
+    panBy,
+    centerOn,
+    zoomToRect,
+    rotateBy,
+    getState,
+    getViewport,
+    setViewport,
+    handleKeyPress,
+    notifyPageSettled,
+  }), [
+    zoomTo,
+    reset,
+    panBy,
+    centerOn,
+    zoomToRect,
+    rotateBy,
+    getState,
+    getViewport,
+    setViewport,
+    handleKeyPress,
+    notifyPageSettled,
+  ])
 
   // Bridge scale changes to JS callback if provided
   useAnimatedReaction(
@@ -1037,6 +3144,54 @@ export default function Zoom(
     [onZoomChange]
   )
 
+  const lastAnnouncedPercent = useRef(Math.round(accessibilityScale * 100))
+  const accessibilityAnnouncementTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // Start from the current zoom when a screen reader is turned on mid-session
+  useEffect(() => {
+    if (!isTrackingAccessibilityScale)
+      return
+
+    lastAnnouncedPercent.current = Math.round(scale.value * 100)
+    setAccessibilityScale(scale.value)
+
+    return () => {
+      if (accessibilityAnnouncementTimer.current)
+        clearTimeout(accessibilityAnnouncementTimer.current)
+    }
+  }, [isTrackingAccessibilityScale, scale])
+
+  // Debounced so a pinch or a stream of wheel ticks is announced once it settles
+  const onAccessibilityScaleChange = useCallback((currentScale: number): void => {
+    if (accessibilityAnnouncementTimer.current)
+      clearTimeout(accessibilityAnnouncementTimer.current)
+
+    accessibilityAnnouncementTimer.current = setTimeout(() => {
+      accessibilityAnnouncementTimer.current = null
+      setAccessibilityScale(currentScale)
+
+      const percent = Math.round(currentScale * 100)
+      if (percent === lastAnnouncedPercent.current)
+        return
+
+      lastAnnouncedPercent.current = percent
+      if (accessibilityConfig?.announceZoomChanges ?? true) {
+        const getAnnouncement = accessibilityConfig?.getZoomAnnouncement ?? getDefaultZoomAnnouncement
+        AccessibilityInfo.announceForAccessibility(getAnnouncement(currentScale))
+      }
+    }, ACCESSIBILITY_ANNOUNCEMENT_DELAY_MS)
+  }, [accessibilityConfig])
+
+  // Track every scale change (gestures, sync, controlled writes) while a screen reader runs
+  useAnimatedReaction(
+    () => Math.round(scale.value * 100),
+    (currentPercent, previousPercent) => {
+      if (isTrackingAccessibilityScale && previousPercent !== null && currentPercent !== previousPercent)
+        runOnJS(onAccessibilityScaleChange)(scale.value)
+    },
+    [isTrackingAccessibilityScale, onAccessibilityScaleChange]
+  )
+
   // Bridge zoom state changes to JS callback if provided
   useAnimatedReaction(
     () => isZoomedIn.value,
@@ -1047,13 +3202,104 @@ export default function Zoom(
     [onZoomStateChange]
   )
 
+  // Wheel/trackpad zoom on react-native-web. Mouse-drag panning is handled by
+  // the pan gesture, which receives mouse pointers on web.
+  // Registered natively because React's onWheel is passive and can't preventDefault.
+  useEffect(() => {
+    if (Platform.OS !== 'web')
+      return
+
+    const element = getWebElement(containerRef.current)
+    if (!element)
+      return
+
+    const handleWheel = (event: WebWheelEvent): void => {
+      const rect = element.getBoundingClientRect()
+      const handled = onWheel({
+        x: event.clientX - rect.left,
+        y: event.clientY - rect.top,
+        deltaX: event.deltaX,
+        deltaY: event.deltaY,
+        deltaMode: event.deltaMode,
+        ctrlKey: event.ctrlKey,
+        metaKey: event.metaKey,
+      })
+      if (handled)
+        event.preventDefault()
+    }
+
+    element.addEventListener('wheel', handleWheel, { passive: false })
+    return () => element.removeEventListener('wheel', handleWheel)
+  }, [onWheel])
+
+  // Keyboard controls on react-native-web, while the container has focus.
+  // Modified keys are left to the browser (e.g. ctrl/cmd + for page zoom).
+  useEffect(() => {
+    if (!isWebKeyboardEnabled)
+      return
+
+    const element = getWebElement(containerRef.current)
+    if (!element)
+      return
+
+    const handleKeyDown = (event: WebKeyboardEvent): void => {
+      if (event.ctrlKey || event.metaKey || event.altKey)
+        return
+
+      if (handleKeyPress(event.key))
+        event.preventDefault()
+    }
+
+    element.addEventListener('keydown', handleKeyDown)
+    return () => element.removeEventListener('keydown', handleKeyDown)
+  }, [isWebKeyboardEnabled, handleKeyPress])
+
+  const accessibilityActions = useMemo(() => {
+    const actionLabels = { ...ACCESSIBILITY_ACTION_LABELS, ...accessibilityConfig?.actionLabels }
+    const actionNames = accessibilityScale > minScale
+      ? [...ACCESSIBILITY_ZOOM_ACTIONS, ...ACCESSIBILITY_PAN_ACTIONS]
+      : ACCESSIBILITY_ZOOM_ACTIONS
+
+    return [
+      { name: 'increment' },
+      { name: 'decrement' },
+      { name: 'magicTap' },
+      ...actionNames.map(name => ({ name, label: actionLabels[name] })),
+    ]
+  }, [accessibilityConfig, accessibilityScale, minScale])
+
+  const onAccessibilityAction = useCallback(
+    (event: AccessibilityActionEvent): void => {
+      handleAccessibilityAction(event.nativeEvent.actionName)
+    },
+    [handleAccessibilityAction]
+  )
+
+  const accessibilityPercent = Math.round(accessibilityScale * 100)
+
   return (
     <GestureHandlerRootView style={[styles.container, style]}>
       <GestureDetector gesture={zoomGesture}>
         <View
+          ref={containerRef}
           style={styles.container}
           onLayout={onLayout}
           collapsable={false}
+          focusable={isWebKeyboardEnabled || undefined}
+          accessible={isAccessibilityEnabled}
+          accessibilityRole={isAccessibilityEnabled ? 'adjustable' : undefined}
+          accessibilityLabel={accessibilityConfig?.label}
+          accessibilityHint={accessibilityConfig?.hint}
+          accessibilityValue={isAccessibilityEnabled
+            ? {
+              min: Math.round(minScale * 100),
+              max: Math.round(maxScale * 100),
+              now: accessibilityPercent,
+              text: `${accessibilityPercent}%`,
+            }
+            : undefined}
+          accessibilityActions={isAccessibilityEnabled ? accessibilityActions : undefined}
+          onAccessibilityAction={isAccessibilityEnabled ? onAccessibilityAction : undefined}
         >
           <Animated.View
             style={[contentContainerAnimatedStyle, contentContainerStyle]}
@@ -1065,4 +3311,185 @@ export default function Zoom(
       </GestureDetector>
     </GestureHandlerRootView>
   )
+})
+
+export default Zoom
+
+/**
+ * Orientation of the ZoomCompare divider line
+ * - vertical: divider splits left (before) / right (after)
+ * - horizontal: divider splits top (before) / bottom (after)
+ */
+export type ZoomCompareDirection = 'vertical' | 'horizontal'
+
+/**
+ * Props for the ZoomCompare component
+ */
+export interface ZoomCompareProps extends UseZoomGestureProps {
+  /**
+   * Layer revealed on the left/top side of the divider
+   */
+  before: ReactNode
+  /**
+   * Layer revealed on the right/bottom side of the divider
+   */
+  after: ReactNode
+  style?: StyleProp<ViewStyle>
+  contentContainerStyle?: StyleProp<ViewStyle>
+  /**
+   * Divider orientation. Default is 'vertical'.
+   */
+  direction?: ZoomCompareDirection
+  /**
+   * Initial divider position as a fraction of the container (0..1). Default is 0.5.
+   */
+  initialPosition?: number
+  /**
+   * Externally owned divider position SharedValue (0..1).
+   * Use it to drive or observe the divider from worklets.
+   */
+  position?: SharedValue<number>
+  /**
+   * Callback fired when the divider position changes (0..1).
+   */
+  onPositionChange?: (position: number) => void
+  /**
+   * Style for the divider line
+   */
+  dividerStyle?: StyleProp<ViewStyle>
+}
+
+/**
+ * Before/after comparison viewer.
+ * Stacks two layers that share one pinch/pan transform, with a draggable
+ * divider in screen space revealing `before` over `after`.
+ *
+ * @example
+ * ```tsx
+ * <ZoomCompare
+ *   before={<Image source={original} style={imageStyle} />}
+ *   after={<Image source={retouched} style={imageStyle} />}
+ * />
+ * ```
+ */
+export function ZoomCompare(props: ZoomCompareProps): React.JSX.Element {
+  const {
+    before,
+    after,
+    style,
+    contentContainerStyle,
+    direction = 'vertical',
+    initialPosition = 0.5,
+    position,
+    onPositionChange,
+    dividerStyle,
+    ...rest
+  } = props
+
+  const {
+    zoomGesture,
+    onLayout,
+    onLayoutContent,
+    contentContainerAnimatedStyle,
+  } = useZoomGesture({ ...rest })
+
+  const isVertical = direction === 'vertical'
+  const internalPosition = useSharedValue(clamp(initialPosition, 0, 1))
+  const dividerPosition = position ?? internalPosition
+  const dividerStartPosition = useSharedValue(0)
+  const containerSize = useSharedValue<Dimensions>({ width: 0, height: 0 })
+
+  const onContainerLayout = useCallback((event: LayoutChangeEvent): void => {
+    const { width, height } = event.nativeEvent.layout
+    containerSize.value = { width, height }
+    onLayout(event)
+  }, [containerSize, onLayout])
+
+  // Divider drag in screen space, independent of the zoom transform
+  const dividerGesture = useMemo(() => Gesture.Pan()
+    .onStart(() => {
+      'worklet'
+      dividerStartPosition.value = dividerPosition.value
+    })
+    .onUpdate((event: GestureUpdateEvent<PanGestureHandlerEventPayload>) => {
+      'worklet'
+      const size = isVertical ? containerSize.value.width : containerSize.value.height
+      if (size <= 0)
+        return
+
+      const delta = isVertical ? event.translationX : event.translationY
+      dividerPosition.value = clamp(dividerStartPosition.value + delta / size, 0, 1)
+    }), [isVertical, dividerPosition, dividerStartPosition, containerSize])
+
+  // Bridge divider position changes to JS callback if provided
+  useAnimatedReaction(
+    () => dividerPosition.value,
+    (currentPosition, previousPosition) => {
+      if (onPositionChange && currentPosition !== previousPosition)
+        runOnJS(onPositionChange)(currentPosition)
+    },
+    [onPositionChange]
+  )
+
+  // Clip the before layer at the divider
+  const clipAnimatedStyle = useAnimatedStyle(() => {
+    const { width, height } = containerSize.value
+    return isVertical
+      ? { width: width * dividerPosition.value, height }
+      : { width, height: height * dividerPosition.value }
+  })
+
+  // Keep the clipped layer the size of the container so both layers line up
+  const layerAnimatedStyle = useAnimatedStyle(() => ({
+    width: containerSize.value.width,
+    height: containerSize.value.height,
+  }))
+
+  const handleAnimatedStyle = useAnimatedStyle(() => {
+    const { width, height } = containerSize.value
+    return isVertical
+      ? { transform: [{ translateX: width * dividerPosition.value - COMPARE_HANDLE_SIZE / 2 }] }
+      : { transform: [{ translateY: height * dividerPosition.value - COMPARE_HANDLE_SIZE / 2 }] }
+  })
+
+  return (
+    <GestureHandlerRootView style={[styles.container, style]}>
+      <GestureDetector gesture={zoomGesture}>
+        <View
+          style={styles.compareContainer}
+          onLayout={onContainerLayout}
+          collapsable={false}
+        >
+          <Animated.View
+            style={[contentContainerAnimatedStyle, contentContainerStyle]}
+            onLayout={onLayoutContent}
+          >
+            {after}
+          </Animated.View>
+          <Animated.View style={[styles.compareClip, clipAnimatedStyle]} pointerEvents="none">
+            <Animated.View style={[styles.compareLayer, layerAnimatedStyle]}>
+              <Animated.View style={[contentContainerAnimatedStyle, contentContainerStyle]}>
+                {before}
+              </Animated.View>
+            </Animated.View>
+          </Animated.View>
+        </View>
+      </GestureDetector>
+      <GestureDetector gesture={dividerGesture}>
+        <Animated.View
+          style={[
+            isVertical ? styles.compareHandleVertical : styles.compareHandleHorizontal,
+            handleAnimatedStyle,
+          ]}
+        >
+          <View
+            style={[
+              isVertical ? styles.compareDividerVertical : styles.compareDividerHorizontal,
+              dividerStyle,
+            ]}
+          />
+        </Animated.View>
+      </GestureDetector>
+    </GestureHandlerRootView>
+  )
 }
@@ -0,0 +1,112 @@
+import type { RefObject } from 'react'
+import { withTiming, type SharedValue } from 'react-native-reanimated'
+
+import { ANIMATION_DURATION } from './constants'
+
+/**
+ * Scroll axis of the parent list for gallery swipe
+ */
+export type GallerySwipeDirection = 'horizontal' | 'vertical'
+
+/**
+ * Scrollable ref interface for parent FlatList/ScrollView.
+ * Compatible with FlatList/ScrollView from react-native, react-native-gesture-handler,
+ * and react-native-reanimated (Animated.FlatList/ScrollView).
+ * Also accepts react-native-pager-view, which can only snap to pages.
+ */
+export interface ScrollableRef {
+  scrollToOffset?: (params: { offset: number; animated?: boolean }) => void
+  scrollTo?: (params: { x?: number; y?: number; animated?: boolean }) => void
+  setPage?: (index: number) => void
+}
+
+/**
+ * Drives the parent pager during gallery swipe.
+ * Offsets come from getItemOffset (or index * item size).
+ */
+export interface PagerAdapter {
+  /**
+   * Follow the finger: move the pager to an offset without animation.
+   * Called for every pan update while overflowing the content edge.
+   */
+  setOffset: (offset: number) => void
+  /**
+   * Snap to a page on release (the current page when snapping back).
+   */
+  snapToPage: (index: number, offset: number) => void
+  /**
+   * Both methods are worklets and run on the UI thread instead of through runOnJS.
+   */
+  isWorklet?: boolean
+}
+
+/**
+ * Options for createSharedValuePagerAdapter
+ */
+export interface SharedValuePagerAdapterOptions {
+  /**
+   * Worklet building the snap animation. Default is a 350ms withTiming.
+   */
+  animation?: (toValue: number) => number
+}
+
+/**
+ * Creates a pager adapter for a FlatList, ScrollView or react-native-pager-view ref.
+ * Runs on the JS thread. Pager views only snap, they can't follow the finger.
+ * @param ref - Ref of the parent list
+ * @param direction - Scroll axis of the parent list
+ * @returns Pager adapter
+ */
+export const createScrollableAdapter = (
+  ref: RefObject<ScrollableRef | null>,
+  direction: GallerySwipeDirection = 'horizontal'
+): PagerAdapter => {
+  const scrollToOffset = (offset: number, animated: boolean): void => {
+    const scrollable = ref.current
+    if (!scrollable)
+      return
+
+    // Duck-typing to support all FlatList/ScrollView implementations
+    if (scrollable.scrollToOffset)
+      scrollable.scrollToOffset({ offset, animated })
+    else if (scrollable.scrollTo)
+      scrollable.scrollTo(direction === 'vertical' ? { y: offset, animated } : { x: offset, animated })
+  }
+
+  return {
+    setOffset: offset => scrollToOffset(offset, false),
+    snapToPage: (index, offset) => {
+      const scrollable = ref.current
+      if (scrollable?.setPage)
+        scrollable.setPage(index)
+      else
+        scrollToOffset(offset, true)
+    },
+  }
+}
+
+/**
+ * Creates a pager adapter for a Reanimated pager driven by an offset SharedValue.
+ * Stays entirely on the UI thread.
+ * @param offset - SharedValue holding the pager scroll offset
+ * @param options - Snap animation
+ * @returns Pager adapter
+ */
+export const createSharedValuePagerAdapter = (
+  offset: SharedValue<number>,
+  options?: SharedValuePagerAdapterOptions
+): PagerAdapter => {
+  const animation = options?.animation
+
+  return {
+    isWorklet: true,
+    setOffset: (value) => {
+      'worklet'
+      offset.value = value
+    },
+    snapToPage: (_index, value) => {
+      'worklet'
+      offset.value = animation ? animation(value) : withTiming(value, { duration: ANIMATION_DURATION })
+    },
+  }
+}
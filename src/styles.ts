@@ -1,5 +1,10 @@
 import { StyleSheet } from 'react-native'
 
+/**
+ * Width of the touch area around the ZoomCompare divider line
+ */
+export const COMPARE_HANDLE_SIZE = 32
+
 export default StyleSheet.create({
   container: {
     flex: 1,
@@ -7,4 +12,49 @@ export default StyleSheet.create({
     alignItems: 'center',
     overflow: 'hidden',
   },
+  compareContainer: {
+    flex: 1,
+    alignSelf: 'stretch',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  compareClip: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    overflow: 'hidden',
+  },
+  compareLayer: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  compareHandleVertical: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    width: COMPARE_HANDLE_SIZE,
+    alignItems: 'center',
+  },
+  compareHandleHorizontal: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: 0,
+    height: COMPARE_HANDLE_SIZE,
+    justifyContent: 'center',
+  },
+  compareDividerVertical: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#fff',
+  },
+  compareDividerHorizontal: {
+    height: 2,
+    backgroundColor: '#fff',
+  },
 })
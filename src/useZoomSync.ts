@@ -0,0 +1,67 @@
+import { useMemo } from 'react'
+import { useSharedValue, type SharedValue } from 'react-native-reanimated'
+
+/**
+ * Transform published by the instance currently driving a sync group.
+ * Carries both absolute and normalized forms so each member can pick its mode.
+ */
+export interface SyncedTransform {
+  scale: number
+  translateX: number
+  translateY: number
+  centerX: number
+  centerY: number
+  relativeScale: number
+}
+
+/**
+ * How a linked instance mirrors the group transform
+ * - absolute: copy scale and translation as-is (contents of equal size)
+ * - normalized: match the normalized viewport (contents of different sizes)
+ */
+export type ZoomSyncMode = 'absolute' | 'normalized'
+
+/**
+ * Shared transform state for a group of linked zoom instances.
+ * Create with useZoomSync and pass as `syncGroup` to each instance.
+ */
+export interface ZoomSyncGroup {
+  /**
+   * Id of the member whose gestures currently drive the group (0 = none).
+   * Only the driver publishes, so followers never echo updates back.
+   */
+  driverId: SharedValue<number>
+  /**
+   * Latest transform published by the driver.
+   */
+  transform: SharedValue<SyncedTransform | null>
+}
+
+let lastSyncMemberId = 0
+
+/**
+ * Allocates a unique member id for an instance joining a sync group
+ */
+export const createSyncMemberId = (): number => {
+  lastSyncMemberId += 1
+  return lastSyncMemberId
+}
+
+/**
+ * Creates a sync group that links several useZoomGesture instances,
+ * e.g. for side-by-side before/after comparison.
+ *
+ * @example
+ * ```tsx
+ * const syncGroup = useZoomSync()
+ *
+ * <Zoom syncGroup={syncGroup}><Image source={before} /></Zoom>
+ * <Zoom syncGroup={syncGroup}><Image source={after} /></Zoom>
+ * ```
+ */
+export function useZoomSync(): ZoomSyncGroup {
+  const driverId = useSharedValue(0)
+  const transform = useSharedValue<SyncedTransform | null>(null)
+
+  return useMemo(() => ({ driverId, transform }), [driverId, transform])
+}
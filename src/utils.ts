@@ -11,16 +11,88 @@ export const clamp = (value: number, min: number, max: number): number => {
 }
 
 /**
- * Calculates appropriate zoom scale based on content dimensions
- * Returns a moderate zoom level (2x) as the default for double-tap
- * The scale is consistent regardless of aspect ratio for predictable UX
- * @returns Suggested zoom scale (default 2x)
+ * Content-aware double-tap zoom target
+ * - fixed: consistent 2x zoom for predictable UX
+ * - fill: content covers the whole container (no letterboxing)
+ * - fitWidth: content width matches the container width
+ * - fitHeight: content height matches the container height
  */
-export const getScaleFromDimensions = (): number => {
-  // Return a consistent 2x zoom for double-tap
-  // This provides a predictable, non-aggressive zoom experience
-  // Users can always pinch to zoom further if needed
-  return 2
+export type DoubleTapMode = 'fixed' | 'fill' | 'fitWidth' | 'fitHeight'
+
+/**
+ * Calculates the double-tap zoom scale for a content-aware mode
+ * @param contentSize - Size of the content at scale 1
+ * @param containerSize - Size of the container
+ * @param mode - Double-tap mode
+ * @returns Zoom scale relative to the laid-out content (2x for 'fixed' or before layout)
+ */
+export const getScaleFromDimensions = (
+  contentSize: Dimensions,
+  containerSize: Dimensions,
+  mode: DoubleTapMode = 'fixed'
+): number => {
+  'worklet'
+  if (
+    mode === 'fixed'
+    || contentSize.width <= 0
+    || contentSize.height <= 0
+    || containerSize.width <= 0
+    || containerSize.height <= 0
+  )
+    return 2
+
+  const widthScale = containerSize.width / contentSize.width
+  const heightScale = containerSize.height / contentSize.height
+
+  switch (mode) {
+    case 'fitWidth':
+      return widthScale
+    case 'fitHeight':
+      return heightScale
+    default:
+      return Math.max(widthScale, heightScale)
+  }
+}
+
+/**
+ * What a double tap does with zoom steps
+ * - cycle: always advance to the next step, wrapping back to minScale after the last
+ * - zoomOut: advance from minScale to the first step, zoom back out from any other scale
+ */
+export type DoubleTapStepBehavior = 'cycle' | 'zoomOut'
+
+/**
+ * Picks the double-tap target from zoom steps
+ * @param steps - Sorted zoom steps within the scale limits
+ * @param currentScale - Committed scale
+ * @param minScale - Minimum scale
+ * @param behavior - Step behavior
+ * @returns Next step, or minScale to zoom out
+ */
+export const getNextZoomStep = (
+  steps: number[],
+  currentScale: number,
+  minScale: number,
+  behavior: DoubleTapStepBehavior = 'cycle'
+): number => {
+  'worklet'
+  if (behavior === 'zoomOut' && currentScale > minScale + 0.01)
+    return minScale
+
+  return steps.find(step => step > currentScale + 0.01) ?? minScale
+}
+
+/**
+ * Picks the step below the current scale (two-finger tap)
+ * @param steps - Sorted zoom steps within the scale limits
+ * @param currentScale - Committed scale
+ * @param minScale - Minimum scale
+ * @returns Previous step, or minScale below the first one
+ */
+export const getPreviousZoomStep = (steps: number[], currentScale: number, minScale: number): number => {
+  'worklet'
+  const lowerSteps = steps.filter(step => step < currentScale - 0.01)
+  return lowerSteps.length > 0 ? lowerSteps[lowerSteps.length - 1] : minScale
 }
 
 /**
@@ -39,6 +111,152 @@ export interface Offset {
   y: number
 }
 
+/**
+ * Rect interface for a region in content coordinates
+ */
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Rotates a point around the origin
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @param degrees - Rotation angle in degrees (clockwise on screen)
+ * @returns Rotated point
+ */
+export const rotatePoint = (x: number, y: number, degrees: number): Offset => {
+  'worklet'
+  if (degrees === 0)
+    return { x, y }
+
+  const radians = degrees * Math.PI / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  return {
+    x: x * cos - y * sin,
+    y: x * sin + y * cos,
+  }
+}
+
+/**
+ * Calculates the bounding box of a size rotated around its center
+ * @param size - Unrotated size
+ * @param degrees - Rotation angle in degrees
+ * @returns Size of the axis-aligned bounding box
+ */
+export const getRotatedSize = (size: Dimensions, degrees: number): Dimensions => {
+  'worklet'
+  if (degrees % 180 === 0)
+    return size
+
+  const radians = degrees * Math.PI / 180
+  const cos = Math.abs(Math.cos(radians))
+  const sin = Math.abs(Math.sin(radians))
+  return {
+    width: size.width * cos + size.height * sin,
+    height: size.width * sin + size.height * cos,
+  }
+}
+
+/**
+ * Resolution-independent viewport
+ * centerX/centerY: content point at the container center, normalized to 0..1
+ * scale: zoom relative to the scale at which content fits the container
+ */
+export interface Viewport {
+  centerX: number
+  centerY: number
+  scale: number
+}
+
+/**
+ * Transform in screen coordinates (translation from centered content)
+ */
+export interface Transform {
+  scale: number
+  translateX: number
+  translateY: number
+}
+
+/**
+ * Calculates the scale at which content fits entirely inside the container
+ * @param contentSize - Size of the content at scale 1
+ * @param containerSize - Size of the container
+ * @returns Fit scale (1 when content is already laid out to fit)
+ */
+export const getFitScale = (contentSize: Dimensions, containerSize: Dimensions): number => {
+  'worklet'
+  if (contentSize.width <= 0 || contentSize.height <= 0 || containerSize.width <= 0 || containerSize.height <= 0)
+    return 1
+
+  return Math.min(
+    containerSize.width / contentSize.width,
+    containerSize.height / contentSize.height
+  )
+}
+
+/**
+ * Converts a transform to a resolution-independent viewport
+ * @param transform - Current scale and translation
+ * @param contentSize - Size of the content at scale 1
+ * @param containerSize - Size of the container
+ * @param rotation - Content rotation in degrees
+ * @returns Normalized viewport
+ */
+export const transformToViewport = (
+  transform: Transform,
+  contentSize: Dimensions,
+  containerSize: Dimensions,
+  rotation: number = 0
+): Viewport => {
+  'worklet'
+  // Content point under the container center, relative to content center
+  const offset = rotatePoint(
+    -transform.translateX / transform.scale,
+    -transform.translateY / transform.scale,
+    -rotation
+  )
+
+  return {
+    centerX: (contentSize.width / 2 + offset.x) / contentSize.width,
+    centerY: (contentSize.height / 2 + offset.y) / contentSize.height,
+    scale: transform.scale / getFitScale(getRotatedSize(contentSize, rotation), containerSize),
+  }
+}
+
+/**
+ * Converts a resolution-independent viewport to a transform (unclamped)
+ * @param viewport - Normalized viewport
+ * @param contentSize - Size of the content at scale 1
+ * @param containerSize - Size of the container
+ * @param rotation - Content rotation in degrees
+ * @returns Scale and translation
+ */
+export const viewportToTransform = (
+  viewport: Viewport,
+  contentSize: Dimensions,
+  containerSize: Dimensions,
+  rotation: number = 0
+): Transform => {
+  'worklet'
+  const scale = viewport.scale * getFitScale(getRotatedSize(contentSize, rotation), containerSize)
+  const offset = rotatePoint(
+    (viewport.centerX - 0.5) * contentSize.width,
+    (viewport.centerY - 0.5) * contentSize.height,
+    rotation
+  )
+
+  return {
+    scale,
+    translateX: -offset.x * scale,
+    translateY: -offset.y * scale,
+  }
+}
+
 /**
  * Calculates maximum allowed offset for panning to keep content within bounds
  * @param contentSize - Size of the content being zoomed
@@ -65,6 +283,101 @@ export const calculateMaxOffset = (
   }
 }
 
+/**
+ * Estimates where a withDecay animation comes to rest (before clamping)
+ * Velocity decays by `deceleration` every millisecond, so the travelled
+ * distance is velocity (px/ms) times the integral of deceleration^t
+ * @param position - Start position
+ * @param velocity - Start velocity in px/s
+ * @param deceleration - Decay deceleration rate (Reanimated default is 0.998)
+ * @returns Projected resting position
+ */
+export const getDecayRestPosition = (
+  position: number,
+  velocity: number,
+  deceleration: number = 0.998
+): number => {
+  'worklet'
+  return position + (velocity / 1000) * (-1 / Math.log(deceleration))
+}
+
+/**
+ * Progress of a pinch below minScale towards the pinch-to-close threshold
+ * @param scale - Current scale
+ * @param minScale - Minimum scale, progress 0
+ * @param dismissScale - Pinch-to-close threshold scale, progress 1
+ * @returns Progress from 0 to 1 (0 when the threshold is not below minScale)
+ */
+export const getPinchDismissProgress = (scale: number, minScale: number, dismissScale: number): number => {
+  'worklet'
+  const range = minScale - dismissScale
+  if (range <= 0)
+    return 0
+
+  return clamp((minScale - scale) / range, 0, 1)
+}
+
+/**
+ * Parent list offsets of a gallery page and its neighbours
+ */
+export interface GalleryOffsets {
+  current: number
+  /** Offset of the previous page, or current on the first page */
+  prev: number
+  /** Offset of the next page, or current on the last page */
+  next: number
+  hasPrev: boolean
+  hasNext: boolean
+}
+
+/**
+ * Calculates the parent list offsets around a gallery page
+ * @param currentIndex - Index of the page
+ * @param itemSize - Page size along the list axis, used without getItemOffset
+ * @param itemCount - Number of pages (unbounded when undefined)
+ * @param getItemOffset - Offset of a page for variable page sizes
+ * @returns Offsets of the page and its neighbours
+ */
+export const getGalleryOffsets = (
+  currentIndex: number,
+  itemSize: number,
+  itemCount?: number,
+  getItemOffset?: (index: number) => number
+): GalleryOffsets => {
+  const offsetOf = (index: number): number => getItemOffset?.(index) ?? index * itemSize
+  const hasPrev = currentIndex > 0
+  const hasNext = itemCount === undefined || currentIndex < itemCount - 1
+  const current = offsetOf(currentIndex)
+
+  return {
+    current,
+    prev: hasPrev ? offsetOf(currentIndex - 1) : current,
+    next: hasNext ? offsetOf(currentIndex + 1) : current,
+    hasPrev,
+    hasNext,
+  }
+}
+
+/**
+ * Decides where a gallery swipe snaps on release: past 30% of the distance to the
+ * neighbour, or flung towards it faster than 500px/s
+ * @param offsets - Offsets of the page and its neighbours
+ * @param overflow - Logical overflow past the content edge, negative towards the next page
+ * @param velocity - Logical release velocity in px/s, negative towards the next page
+ * @returns 1 for the next page, -1 for the previous page, 0 to snap back
+ */
+export const getGallerySnapStep = (offsets: GalleryOffsets, overflow: number, velocity: number): number => {
+  'worklet'
+  const neighbourOffset = overflow < 0 ? offsets.next : offsets.prev
+  const snapThreshold = Math.abs(neighbourOffset - offsets.current) * 0.3
+
+  if (offsets.hasNext && (overflow < -snapThreshold || (overflow < 0 && velocity < -500)))
+    return 1
+  if (offsets.hasPrev && (overflow > snapThreshold || (overflow > 0 && velocity > 500)))
+    return -1
+  return 0
+}
+
 /**
  * Resets offset values to zero with optional animation
  * @param offsetX - Shared value for X offset
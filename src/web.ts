@@ -0,0 +1,65 @@
+/**
+ * Minimal DOM typings for react-native-web, where a View ref is an HTMLElement.
+ * The library is compiled without the DOM lib, so only the used subset is declared.
+ */
+
+/**
+ * Subset of the DOM WheelEvent
+ */
+export interface WebWheelEvent {
+  clientX: number
+  clientY: number
+  deltaX: number
+  deltaY: number
+  deltaMode: number
+  ctrlKey: boolean
+  metaKey: boolean
+  preventDefault: () => void
+}
+
+/**
+ * Subset of the DOM KeyboardEvent
+ */
+export interface WebKeyboardEvent {
+  key: string
+  ctrlKey: boolean
+  metaKey: boolean
+  altKey: boolean
+  preventDefault: () => void
+}
+
+/**
+ * DOM events the library listens to
+ */
+export interface WebEventMap {
+  wheel: WebWheelEvent
+  keydown: WebKeyboardEvent
+}
+
+/**
+ * Subset of the DOM HTMLElement
+ */
+export interface WebElement {
+  addEventListener: <K extends keyof WebEventMap>(
+    type: K,
+    listener: (event: WebEventMap[K]) => void,
+    options?: { passive?: boolean }
+  ) => void
+  removeEventListener: <K extends keyof WebEventMap>(
+    type: K,
+    listener: (event: WebEventMap[K]) => void
+  ) => void
+  getBoundingClientRect: () => { left: number; top: number }
+}
+
+/**
+ * Resolves a View ref to its DOM element on react-native-web
+ * @param node - Value of a View ref
+ * @returns The DOM element, or null on native platforms
+ */
+export const getWebElement = (node: unknown): WebElement | null => {
+  if (!node || typeof (node as Partial<WebElement>).addEventListener !== 'function')
+    return null
+
+  return node as WebElement
+}